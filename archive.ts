@@ -0,0 +1,199 @@
+/**
+ * Pi Messenger - Message Archive
+ *
+ * Append-only JSONL archive stored at <cwd>/.pi/messenger/messages.jsonl.
+ * Messages are written when sent and when delivered, so a project keeps its
+ * conversations across restarts even though inbox files are deleted on delivery.
+ * Threads are read from here too. Pruned on startup to `archiveRetention`.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { isMessageRef, type AgentMailMessage } from "./lib.js";
+
+export interface ArchiveQuery {
+  from?: string;
+  to?: string;
+  /** Inclusive lower bound (ISO timestamp). */
+  since?: string;
+  /** Inclusive upper bound (ISO timestamp). */
+  until?: string;
+  /** Whitespace-separated terms; every term must appear in the text (case-insensitive). */
+  text?: string;
+  limit?: number;
+}
+
+function archivePath(cwd: string): string {
+  return path.join(cwd, ".pi", "messenger", "messages.jsonl");
+}
+
+export function archiveMessage(cwd: string, msg: AgentMailMessage): void {
+  const p = archivePath(cwd);
+  try {
+    const archiveDir = path.dirname(p);
+    if (!fs.existsSync(archiveDir)) {
+      fs.mkdirSync(archiveDir, { recursive: true });
+    }
+    fs.appendFileSync(p, JSON.stringify(msg) + "\n");
+  } catch {
+    // Best effort
+  }
+}
+
+interface ArchiveIndex {
+  /** Pruning replaces the file, so a new inode means start over. */
+  ino: number;
+  /** Bytes of the file consumed so far; the archive is append-only between prunes. */
+  offset: number;
+  messages: AgentMailMessage[];
+  byId: Map<string, AgentMailMessage>;
+}
+
+// Parsed archives by path. Sends, thread lookups and overlay renders only
+// read what was appended since the last call instead of the whole file.
+const archiveIndexes = new Map<string, ArchiveIndex>();
+
+function loadArchive(cwd: string): ArchiveIndex | null {
+  const p = archivePath(cwd);
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(p);
+  } catch {
+    archiveIndexes.delete(p);
+    return null;
+  }
+  const size = stat.size;
+
+  let index = archiveIndexes.get(p);
+  if (!index || index.ino !== stat.ino || size < index.offset) {
+    index = { ino: stat.ino, offset: 0, messages: [], byId: new Map() };
+    archiveIndexes.set(p, index);
+  }
+  if (size === index.offset) return index;
+
+  try {
+    const fd = fs.openSync(p, "r");
+    let chunk: string;
+    try {
+      const buffer = Buffer.alloc(size - index.offset);
+      fs.readSync(fd, buffer, 0, buffer.length, index.offset);
+      chunk = buffer.toString("utf-8");
+    } finally {
+      fs.closeSync(fd);
+    }
+    // Leave a line that is still being written for the next read
+    const complete = chunk.slice(0, chunk.lastIndexOf("\n") + 1);
+    index.offset += Buffer.byteLength(complete, "utf-8");
+
+    let added = false;
+    for (const line of complete.split("\n")) {
+      if (!line) continue;
+      try {
+        const msg = JSON.parse(line) as AgentMailMessage;
+        if (index.byId.has(msg.id)) continue;
+        index.byId.set(msg.id, msg);
+        index.messages.push(msg);
+        added = true;
+      } catch {
+        // Skip malformed lines
+      }
+    }
+    if (added) index.messages.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  } catch {
+    // Best effort; serve what was read before
+  }
+  return index;
+}
+
+/**
+ * All archived messages, oldest first. A message sent and delivered within the
+ * same project is archived twice; only the first copy is kept.
+ */
+export function readArchive(cwd: string): AgentMailMessage[] {
+  return [...(loadArchive(cwd)?.messages ?? [])];
+}
+
+/** Keep only the most recent `maxMessages` archive lines. */
+export function pruneArchive(cwd: string, maxMessages: number): void {
+  const p = archivePath(cwd);
+  if (!fs.existsSync(p)) return;
+
+  try {
+    const content = fs.readFileSync(p, "utf-8").trim();
+    if (!content) return;
+    const lines = content.split("\n");
+    if (lines.length <= maxMessages) return;
+    const tmp = `${p}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, lines.slice(-maxMessages).join("\n") + "\n");
+    fs.renameSync(tmp, p);
+  } catch {
+    // Best effort
+  }
+}
+
+/**
+ * An archived message by ID or unambiguous ID prefix (agents see the
+ * 8-character short form).
+ */
+export function findArchivedMessage(cwd: string, ref: string): AgentMailMessage | null {
+  if (!isMessageRef(ref)) return null;
+  const index = loadArchive(cwd);
+  if (!index) return null;
+  const exact = index.byId.get(ref);
+  if (exact) return exact;
+  const matches = index.messages.filter(msg => msg.id.startsWith(ref));
+  return matches.length === 1 ? matches[0] : null;
+}
+
+/**
+ * The conversation a thread or message ID belongs to, oldest first.
+ * Accepts a thread ID, a message ID, or an unambiguous prefix of either.
+ */
+export function getArchivedThread(cwd: string, ref: string): AgentMailMessage[] {
+  if (!isMessageRef(ref)) return [];
+  const messages = loadArchive(cwd)?.messages ?? [];
+  const threadOf = (msg: AgentMailMessage) => msg.threadId ?? msg.id;
+  const threadIds = [...new Set(messages.map(threadOf))];
+  let threadId = threadIds.find(id => id === ref);
+  if (!threadId) {
+    const byPrefix = threadIds.filter(id => id.startsWith(ref));
+    threadId = byPrefix.length === 1 ? byPrefix[0] : undefined;
+  }
+  if (!threadId) {
+    const msg = findArchivedMessage(cwd, ref);
+    threadId = msg ? threadOf(msg) : undefined;
+  }
+  if (!threadId) return [];
+  return messages.filter(msg => threadOf(msg) === threadId);
+}
+
+/** Matching messages, oldest first, keeping the most recent `limit`. */
+export function queryArchive(cwd: string, query: ArchiveQuery): AgentMailMessage[] {
+  const terms = query.text?.toLowerCase().split(/\s+/).filter(Boolean) ?? [];
+  const matches = readArchive(cwd).filter(msg => {
+    if (query.from && msg.from !== query.from) return false;
+    if (query.to && msg.to !== query.to) return false;
+    if (query.since && msg.timestamp < query.since) return false;
+    if (query.until && msg.timestamp > query.until) return false;
+    if (terms.length > 0) {
+      const haystack = msg.text.toLowerCase();
+      if (!terms.every(t => haystack.includes(t))) return false;
+    }
+    return true;
+  });
+  return query.limit && query.limit > 0 ? matches.slice(-query.limit) : matches;
+}
+
+/**
+ * Resolve a time bound given as an ISO date/timestamp or a relative duration
+ * before `now` ("90s", "30m", "2h", "7d"). Returns null if it can't be parsed.
+ */
+export function parseTimeBound(value: string, now: number = Date.now()): string | null {
+  const relative = value.trim().match(/^(\d+)\s*([smhd])$/i);
+  if (relative) {
+    const unitMs = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[relative[2].toLowerCase() as "s" | "m" | "h" | "d"];
+    return new Date(now - Number(relative[1]) * unitMs).toISOString();
+  }
+  const ms = Date.parse(value);
+  return Number.isFinite(ms) ? new Date(ms).toISOString() : null;
+}
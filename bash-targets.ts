@@ -0,0 +1,436 @@
+/**
+ * Pi Messenger - Bash Write Target Analysis
+ *
+ * Best-effort static analysis of a shell command line to find the files it is
+ * likely to write, so reservations can be enforced on `bash` tool calls as
+ * well as `edit`/`write`. Understands quoting, command separators, heredocs,
+ * `cd`, redirections and the commands agents commonly use to modify files.
+ * Anything it cannot see through (variables, command substitution, scripts)
+ * is skipped rather than guessed.
+ */
+
+import { homedir } from "node:os";
+import { basename, isAbsolute, join } from "node:path";
+
+// =============================================================================
+// Tokenizer
+// =============================================================================
+
+type ShellToken =
+  | { kind: "word"; value: string; dynamic: boolean }
+  | { kind: "op"; value: string }
+  | { kind: "redirect"; value: string };
+
+const WRITE_REDIRECTS = new Set([">", ">>", ">|", "&>", "&>>", "<>", ">&"]);
+
+function isWordBreak(ch: string): boolean {
+  return ch === " " || ch === "\t" || ch === "\n" || ch === ";" || ch === "&" ||
+    ch === "|" || ch === "(" || ch === ")" || ch === "<" || ch === ">";
+}
+
+/** Index just past the `)` matching the `(` at `start`, honoring quotes. */
+function skipParens(command: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < command.length; i++) {
+    const ch = command[i];
+    if (ch === "\\") {
+      i++;
+    } else if (ch === "'") {
+      const end = command.indexOf("'", i + 1);
+      i = end === -1 ? command.length : end;
+    } else if (ch === "(") {
+      depth++;
+    } else if (ch === ")") {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+  return command.length;
+}
+
+function tokenize(command: string): ShellToken[] {
+  const tokens: ShellToken[] = [];
+  const heredocs: Array<{ delimiter: string; stripTabs: boolean }> = [];
+  let i = 0;
+
+  const readHeredocBodies = () => {
+    for (const { delimiter, stripTabs } of heredocs) {
+      while (i < command.length) {
+        const end = command.indexOf("\n", i);
+        const line = command.slice(i, end === -1 ? command.length : end);
+        i = end === -1 ? command.length : end + 1;
+        if ((stripTabs ? line.replace(/^\t+/, "") : line) === delimiter) break;
+      }
+    }
+    heredocs.length = 0;
+  };
+
+  while (i < command.length) {
+    const ch = command[i];
+
+    if (ch === " " || ch === "\t") {
+      i++;
+      continue;
+    }
+    if (ch === "\n") {
+      tokens.push({ kind: "op", value: ";" });
+      i++;
+      readHeredocBodies();
+      continue;
+    }
+    if (ch === "#") {
+      while (i < command.length && command[i] !== "\n") i++;
+      continue;
+    }
+
+    const two = command.slice(i, i + 2);
+    const three = command.slice(i, i + 3);
+
+    if (two === "&&" || two === "||" || two === "|&" || two === ";;") {
+      tokens.push({ kind: "op", value: two });
+      i += 2;
+      continue;
+    }
+    if (three === "&>>") {
+      tokens.push({ kind: "redirect", value: three });
+      i += 3;
+      continue;
+    }
+    if (two === "&>") {
+      tokens.push({ kind: "redirect", value: two });
+      i += 2;
+      continue;
+    }
+    if (ch === ";" || ch === "|" || ch === "&" || ch === "(" || ch === ")") {
+      tokens.push({ kind: "op", value: ch });
+      i++;
+      continue;
+    }
+
+    const fdRedirect = /^\d*(>>|>\||>&|<<<|<<-|<<|<>|<&|>|<)/.exec(command.slice(i));
+    if (fdRedirect) {
+      const op = fdRedirect[1];
+      i += fdRedirect[0].length;
+      if (op === "<<" || op === "<<-") {
+        while (command[i] === " " || command[i] === "\t") i++;
+        const start = i;
+        while (i < command.length && !isWordBreak(command[i])) i++;
+        heredocs.push({ delimiter: command.slice(start, i).replace(/['"\\]/g, ""), stripTabs: op === "<<-" });
+        continue;
+      }
+      tokens.push({ kind: "redirect", value: op });
+      continue;
+    }
+
+    let value = "";
+    let dynamic = false;
+    while (i < command.length && !isWordBreak(command[i])) {
+      const c = command[i];
+      if (c === "\\") {
+        if (i + 1 < command.length && command[i + 1] !== "\n") value += command[i + 1];
+        i += 2;
+      } else if (c === "'") {
+        const end = command.indexOf("'", i + 1);
+        value += command.slice(i + 1, end === -1 ? command.length : end);
+        i = end === -1 ? command.length : end + 1;
+      } else if (c === '"') {
+        i++;
+        while (i < command.length && command[i] !== '"') {
+          if (command[i] === "\\" && i + 1 < command.length && '"\\$`'.includes(command[i + 1])) {
+            value += command[i + 1];
+            i += 2;
+            continue;
+          }
+          if (command[i] === "$" || command[i] === "`") dynamic = true;
+          value += command[i++];
+        }
+        i++;
+      } else if (c === "$" && command[i + 1] === "(") {
+        dynamic = true;
+        const end = skipParens(command, i + 1);
+        value += command.slice(i, end);
+        i = end;
+      } else if (c === "`") {
+        dynamic = true;
+        const end = command.indexOf("`", i + 1);
+        value += command.slice(i, end === -1 ? command.length : end + 1);
+        i = end === -1 ? command.length : end + 1;
+      } else {
+        if (c === "$") dynamic = true;
+        value += c;
+        i++;
+      }
+    }
+    tokens.push({ kind: "word", value, dynamic });
+  }
+
+  return tokens;
+}
+
+// =============================================================================
+// Command Analysis
+// =============================================================================
+
+interface SimpleCommand {
+  words: Array<{ value: string; dynamic: boolean }>;
+  writes: Array<{ value: string; dynamic: boolean }>;
+}
+
+function splitCommands(tokens: ShellToken[]): SimpleCommand[] {
+  const commands: SimpleCommand[] = [];
+  let current: SimpleCommand = { words: [], writes: [] };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.kind === "op") {
+      if (current.words.length > 0 || current.writes.length > 0) commands.push(current);
+      current = { words: [], writes: [] };
+      continue;
+    }
+    if (token.kind === "redirect") {
+      const target = tokens[i + 1];
+      if (target?.kind !== "word") continue;
+      i++;
+      // `>&2` / `2>&1` duplicate a descriptor rather than naming a file
+      if (token.value === ">&" && /^(\d+|-)$/.test(target.value)) continue;
+      if (WRITE_REDIRECTS.has(token.value)) current.writes.push(target);
+      continue;
+    }
+    current.words.push(token);
+  }
+  if (current.words.length > 0 || current.writes.length > 0) commands.push(current);
+  return commands;
+}
+
+const COMMAND_WRAPPERS = new Set(["sudo", "command", "env", "nohup", "time", "exec", "nice", "{", "!", "then", "do", "else"]);
+
+function stripWrappers(words: string[]): string[] {
+  let i = 0;
+  while (i < words.length) {
+    const word = words[i];
+    if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(word)) {
+      i++;
+    } else if (COMMAND_WRAPPERS.has(word)) {
+      i++;
+      while (i < words.length && words[i].startsWith("-")) i++;
+    } else {
+      break;
+    }
+  }
+  return words.slice(i);
+}
+
+/**
+ * Split arguments into flags and positionals. `valueFlags` lists short/long
+ * options that consume the following word; `--opt=value` is self-contained.
+ */
+function parseArgs(args: string[], valueFlags: string[] = []): { flags: Array<[string, string | undefined]>; positionals: string[] } {
+  const flags: Array<[string, string | undefined]> = [];
+  const positionals: string[] = [];
+  let endOfOptions = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (endOfOptions || !arg.startsWith("-") || arg === "-") {
+      positionals.push(arg);
+    } else if (arg === "--") {
+      endOfOptions = true;
+    } else if (arg.startsWith("--") && arg.includes("=")) {
+      const eq = arg.indexOf("=");
+      flags.push([arg.slice(0, eq), arg.slice(eq + 1)]);
+    } else if (valueFlags.includes(arg)) {
+      flags.push([arg, args[++i]]);
+    } else {
+      flags.push([arg, undefined]);
+    }
+  }
+  return { flags, positionals };
+}
+
+function hasShortFlag(flags: Array<[string, string | undefined]>, letter: string): boolean {
+  return flags.some(([flag]) => /^-[A-Za-z]+$/.test(flag) && flag.includes(letter));
+}
+
+function flagValue(flags: Array<[string, string | undefined]>, ...names: string[]): string | undefined {
+  return flags.find(([flag]) => names.includes(flag))?.[1];
+}
+
+function copyTargets(args: string[], removesSources: boolean): string[] {
+  const { flags, positionals } = parseArgs(args, ["-t", "-S", "-m", "-o", "-g", "--target-directory", "--suffix"]);
+  const targetDir = flagValue(flags, "-t", "--target-directory");
+  if (targetDir !== undefined) {
+    const moved = positionals.map(src => join(targetDir, basename(src)));
+    return removesSources ? [...positionals, ...moved] : moved;
+  }
+  if (positionals.length < 2) return [];
+  const sources = positionals.slice(0, -1);
+  const dest = positionals[positionals.length - 1];
+  const written = sources.length > 1 || dest.endsWith("/")
+    ? sources.map(src => join(dest, basename(src)))
+    : [dest];
+  return removesSources ? [...sources, ...written] : written;
+}
+
+/**
+ * Files edited in place by `sed -i` / `perl -pi -e`. The first positional is
+ * the script unless one was passed with `-e`/`-f`.
+ */
+function inPlaceTargets(args: string[]): string[] {
+  let inPlace = false;
+  let scriptGiven = false;
+  const positionals: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--") {
+      positionals.push(...args.slice(i + 1));
+      break;
+    }
+    if (arg.startsWith("--")) {
+      if (arg.startsWith("--in-place")) inPlace = true;
+      if (arg === "--expression" || arg === "--file") {
+        scriptGiven = true;
+        i++;
+      } else if (arg.startsWith("--expression=") || arg.startsWith("--file=")) {
+        scriptGiven = true;
+      }
+      continue;
+    }
+    if (arg.startsWith("-") && arg.length > 1) {
+      // Letters up to the first non-letter: `-i.bak` is `-i`, `-MList::Util` is a module
+      const letters = (/^-([A-Za-z]*)/.exec(arg)?.[1] ?? "").split(/[MIm]/)[0];
+      if (letters.includes("i")) inPlace = true;
+      if (letters === arg.slice(1) && /[ef]$/.test(letters)) {
+        scriptGiven = true;
+        i++;
+      } else if (arg === "-l") {
+        i++;
+      }
+      continue;
+    }
+    positionals.push(arg);
+  }
+
+  if (!inPlace) return [];
+  return scriptGiven ? positionals : positionals.slice(1);
+}
+
+function gitTargets(args: string[]): { targets: string[]; cwd?: string } {
+  let i = 0;
+  let cwd: string | undefined;
+  while (i < args.length && args[i].startsWith("-")) {
+    if (args[i] === "-C") cwd = args[i + 1];
+    if (args[i] === "-C" || args[i] === "-c") i++;
+    i++;
+  }
+  const sub = args[i];
+  const rest = args.slice(i + 1);
+
+  switch (sub) {
+    case "restore":
+      return { cwd, targets: parseArgs(rest, ["-s", "--source", "--pathspec-from-file"]).positionals };
+    case "checkout": {
+      const separator = rest.indexOf("--");
+      if (separator !== -1) return { cwd, targets: rest.slice(separator + 1) };
+      const { flags, positionals } = parseArgs(rest, ["-b", "-B", "--orphan", "--conflict"]);
+      if (flags.some(([flag]) => ["-b", "-B", "--orphan"].includes(flag))) return { cwd, targets: [] };
+      // `git checkout <ref> <paths...>`; a lone argument is almost always a branch
+      return { cwd, targets: positionals.slice(1) };
+    }
+    case "rm":
+      return { cwd, targets: parseArgs(rest).positionals };
+    case "mv":
+      return { cwd, targets: copyTargets(rest, true) };
+    default:
+      return { cwd, targets: [] };
+  }
+}
+
+function commandTargets(words: string[]): { targets: string[]; cwd?: string } {
+  const [cmd, ...args] = words;
+  const name = basename(cmd);
+
+  switch (name) {
+    case "rm": {
+      const { flags, positionals } = parseArgs(args);
+      const recursive = hasShortFlag(flags, "r") || hasShortFlag(flags, "R") || flags.some(([flag]) => flag === "--recursive");
+      return { targets: recursive ? positionals.map(p => p.endsWith("/") ? p : `${p}/`) : positionals };
+    }
+    case "rmdir":
+      return { targets: parseArgs(args).positionals.map(p => p.endsWith("/") ? p : `${p}/`) };
+    case "unlink":
+    case "touch":
+    case "shred":
+      return { targets: parseArgs(args, ["-d", "-r", "-t", "-n", "-s"]).positionals };
+    case "truncate":
+      return { targets: parseArgs(args, ["-s", "-r", "--size", "--reference"]).positionals };
+    case "tee":
+      return { targets: parseArgs(args).positionals };
+    case "cp":
+    case "install":
+    case "ln":
+      return { targets: copyTargets(args, false) };
+    case "mv":
+      return { targets: copyTargets(args, true) };
+    case "sed":
+    case "gsed":
+    case "perl":
+      return { targets: inPlaceTargets(args) };
+    case "dd":
+      return { targets: args.filter(a => a.startsWith("of=")).map(a => a.slice(3)) };
+    case "git":
+      return gitTargets(args);
+    default:
+      return { targets: [] };
+  }
+}
+
+function expandHome(path: string): string {
+  if (path === "~") return homedir();
+  if (path.startsWith("~/")) return join(homedir(), path.slice(2));
+  return path;
+}
+
+/**
+ * Paths a shell command is likely to write, delete or overwrite, relative to
+ * the directory the command starts in (absolute paths stay absolute). Globs
+ * are returned as patterns; directories removed recursively end with `/`.
+ */
+export function extractBashWriteTargets(command: string): string[] {
+  const targets: string[] = [];
+  let cwd = "";
+
+  const add = (target: string, base: string = cwd) => {
+    if (!target || target.startsWith("/dev/")) return;
+    // `~user/...` would need a passwd lookup
+    if (target.startsWith("~") && target !== "~" && !target.startsWith("~/")) return;
+    const expanded = expandHome(target);
+    const resolved = isAbsolute(expanded) || !base ? expanded : join(base, expanded);
+    if (!targets.includes(resolved)) targets.push(resolved);
+  };
+
+  for (const simple of splitCommands(tokenize(command))) {
+    for (const write of simple.writes) {
+      if (!write.dynamic) add(write.value);
+    }
+
+    // Dynamic words can't be resolved statically; blank them so they're skipped
+    const words = stripWrappers(simple.words.map(w => (w.dynamic ? "" : w.value)));
+    if (words.length === 0 || !words[0]) continue;
+
+    if (words[0] === "cd" || words[0] === "pushd") {
+      const dir = words[1];
+      if (dir && dir !== "-") {
+        const expanded = expandHome(dir);
+        cwd = isAbsolute(expanded) || !cwd ? expanded : join(cwd, expanded);
+      }
+      continue;
+    }
+
+    const { targets: found, cwd: commandCwd } = commandTargets(words);
+    const base = commandCwd ? (isAbsolute(commandCwd) || !cwd ? commandCwd : join(cwd, commandCwd)) : cwd;
+    for (const target of found) add(target, base);
+  }
+
+  return targets;
+}
@@ -12,6 +12,16 @@ import { existsSync, readFileSync, writeFileSync, mkdirSync } from "node:fs";
 import { homedir } from "node:os";
 import { join } from "node:path";
 
+/** Crew orchestration settings, configured under the `crew` key. */
+export interface CrewConfig {
+  /** Workers per wave, and the ceiling a `concurrency` param may raise it to (at most 10). */
+  concurrency: { workers: number; max: number };
+  models: { planner?: string; worker?: string; reviewer?: string };
+  work: { maxWaves: number; shutdownGracePeriodMs: number; env: Record<string, string> };
+}
+
+const MAX_CREW_WORKERS = 10;
+
 export interface MessengerConfig {
   autoRegister: boolean;
   autoRegisterPaths: string[];
@@ -23,9 +33,28 @@ export interface MessengerConfig {
   nameTheme: string;
   nameWords?: { adjectives: string[]; nouns: string[] };
   feedRetention: number;
+  archiveRetention: number;
   stuckThreshold: number;
   stuckNotify: boolean;
   autoStatus: boolean;
+  reservationTtl: number;
+  bashReservationGuard: "block" | "warn" | "off";
+  autoReserve: boolean;
+  autoReserveIdle: number;
+  offlineRetention: number;
+  /** Per-sender cap on incoming message priority; "*" applies to all senders. */
+  priorityCaps: Record<string, "urgent" | "normal" | "fyi">;
+  askTimeout: number;
+  /** Echo-loop detection: seconds of conversation considered, round trips allowed, repeat threshold. */
+  loopWindow: number;
+  loopMaxRoundTrips: number;
+  loopSimilarity: number;
+  /** Outbound budgets for this agent's sends; 0 disables a limit. */
+  maxMessagesPerMinute: number;
+  maxBroadcastsPerHour: number;
+  /** Message text only; attachments have their own cap (checkAttachmentLimits). */
+  maxMessageBytes: number;
+  crew: CrewConfig;
 }
 
 const DEFAULT_CONFIG: MessengerConfig = {
@@ -38,9 +67,28 @@ const DEFAULT_CONFIG: MessengerConfig = {
   senderDetailsOnFirstContact: true,
   nameTheme: "default",
   feedRetention: 50,
+  archiveRetention: 5000,
   stuckThreshold: 900,
   stuckNotify: true,
   autoStatus: true,
+  reservationTtl: 0,
+  bashReservationGuard: "block",
+  autoReserve: false,
+  autoReserveIdle: 600,
+  offlineRetention: 604800,
+  priorityCaps: {},
+  askTimeout: 300,
+  loopWindow: 600,
+  loopMaxRoundTrips: 5,
+  loopSimilarity: 0.8,
+  maxMessagesPerMinute: 20,
+  maxBroadcastsPerHour: 10,
+  maxMessageBytes: 16384,
+  crew: {
+    concurrency: { workers: 2, max: 10 },
+    models: {},
+    work: { maxWaves: 50, shutdownGracePeriodMs: 30000, env: {} },
+  },
 };
 
 function readJsonFile(path: string): Record<string, unknown> | null {
@@ -146,13 +194,98 @@ export function loadConfig(cwd: string): MessengerConfig {
 
   const nameWords = (merged as Record<string, unknown>).nameWords as { adjectives: string[]; nouns: string[] } | undefined;
 
+  const priorityCaps: MessengerConfig["priorityCaps"] = {};
+  const rawCaps = (merged as Record<string, unknown>).priorityCaps;
+  if (rawCaps && typeof rawCaps === "object" && !Array.isArray(rawCaps)) {
+    for (const [sender, cap] of Object.entries(rawCaps)) {
+      if (cap === "urgent" || cap === "normal" || cap === "fyi") priorityCaps[sender] = cap;
+    }
+  }
+
+  // Crew settings are nested, so merge them per sub-object instead of letting one source replace the rest
+  const crewSources = [settingsConfig, extensionConfig, projectConfig]
+    .map(c => (c as Record<string, unknown> | null)?.crew)
+    .filter((c): c is Record<string, unknown> => !!c && typeof c === "object" && !Array.isArray(c));
+  const crewSection = (key: string): Record<string, unknown> => Object.assign(
+    {},
+    ...crewSources.map(c => c[key]).filter(v => !!v && typeof v === "object" && !Array.isArray(v))
+  );
+  const crewModels = crewSection("models");
+  const crewConcurrency = crewSection("concurrency");
+  const crewWork = crewSection("work");
+  const crewDefaults = DEFAULT_CONFIG.crew;
+  const modelFor = (role: string) =>
+    typeof crewModels[role] === "string" && crewModels[role] ? crewModels[role] as string : undefined;
+  const workerCount = (value: unknown, fallback: number) =>
+    typeof value === "number" && value >= 1 ? Math.min(Math.floor(value), MAX_CREW_WORKERS) : fallback;
+  const maxWorkers = workerCount(crewConcurrency.max, crewDefaults.concurrency.max);
+  const workEnv: Record<string, string> = {};
+  if (crewWork.env && typeof crewWork.env === "object" && !Array.isArray(crewWork.env)) {
+    for (const [key, value] of Object.entries(crewWork.env)) {
+      if (typeof value === "string") workEnv[key] = value;
+    }
+  }
+  const crew: CrewConfig = {
+    concurrency: {
+      workers: Math.min(workerCount(crewConcurrency.workers, crewDefaults.concurrency.workers), maxWorkers),
+      max: maxWorkers,
+    },
+    models: { planner: modelFor("planner"), worker: modelFor("worker"), reviewer: modelFor("reviewer") },
+    work: {
+      maxWaves: typeof crewWork.maxWaves === "number" && crewWork.maxWaves >= 1
+        ? Math.floor(crewWork.maxWaves)
+        : crewDefaults.work.maxWaves,
+      shutdownGracePeriodMs: typeof crewWork.shutdownGracePeriodMs === "number" && crewWork.shutdownGracePeriodMs >= 0
+        ? crewWork.shutdownGracePeriodMs
+        : crewDefaults.work.shutdownGracePeriodMs,
+      env: workEnv,
+    },
+  };
+
   const sharedFields = {
     nameTheme: typeof merged.nameTheme === "string" ? merged.nameTheme : DEFAULT_CONFIG.nameTheme,
     nameWords: nameWords && Array.isArray(nameWords.adjectives) && Array.isArray(nameWords.nouns) ? nameWords : undefined,
     feedRetention: typeof merged.feedRetention === "number" ? merged.feedRetention : DEFAULT_CONFIG.feedRetention,
+    archiveRetention: typeof merged.archiveRetention === "number" && merged.archiveRetention > 0
+      ? merged.archiveRetention
+      : DEFAULT_CONFIG.archiveRetention,
     stuckThreshold: typeof merged.stuckThreshold === "number" ? merged.stuckThreshold : DEFAULT_CONFIG.stuckThreshold,
     stuckNotify: merged.stuckNotify !== false,
     autoStatus: merged.autoStatus !== false,
+    reservationTtl: typeof merged.reservationTtl === "number" && merged.reservationTtl > 0 ? merged.reservationTtl : 0,
+    bashReservationGuard: merged.bashReservationGuard === "warn" || merged.bashReservationGuard === "off"
+      ? merged.bashReservationGuard
+      : DEFAULT_CONFIG.bashReservationGuard,
+    autoReserve: merged.autoReserve === true,
+    autoReserveIdle: typeof merged.autoReserveIdle === "number" && merged.autoReserveIdle >= 0
+      ? merged.autoReserveIdle
+      : DEFAULT_CONFIG.autoReserveIdle,
+    offlineRetention: typeof merged.offlineRetention === "number" && merged.offlineRetention >= 0
+      ? merged.offlineRetention
+      : DEFAULT_CONFIG.offlineRetention,
+    priorityCaps,
+    askTimeout: typeof merged.askTimeout === "number" && merged.askTimeout > 0
+      ? merged.askTimeout
+      : DEFAULT_CONFIG.askTimeout,
+    loopWindow: typeof merged.loopWindow === "number" && merged.loopWindow > 0
+      ? merged.loopWindow
+      : DEFAULT_CONFIG.loopWindow,
+    loopMaxRoundTrips: typeof merged.loopMaxRoundTrips === "number" && merged.loopMaxRoundTrips >= 0
+      ? Math.floor(merged.loopMaxRoundTrips)
+      : DEFAULT_CONFIG.loopMaxRoundTrips,
+    loopSimilarity: typeof merged.loopSimilarity === "number" && merged.loopSimilarity >= 0 && merged.loopSimilarity <= 1
+      ? merged.loopSimilarity
+      : DEFAULT_CONFIG.loopSimilarity,
+    maxMessagesPerMinute: typeof merged.maxMessagesPerMinute === "number" && merged.maxMessagesPerMinute >= 0
+      ? Math.floor(merged.maxMessagesPerMinute)
+      : DEFAULT_CONFIG.maxMessagesPerMinute,
+    maxBroadcastsPerHour: typeof merged.maxBroadcastsPerHour === "number" && merged.maxBroadcastsPerHour >= 0
+      ? Math.floor(merged.maxBroadcastsPerHour)
+      : DEFAULT_CONFIG.maxBroadcastsPerHour,
+    maxMessageBytes: typeof merged.maxMessageBytes === "number" && merged.maxMessageBytes >= 0
+      ? Math.floor(merged.maxMessageBytes)
+      : DEFAULT_CONFIG.maxMessageBytes,
+    crew,
   };
 
   if (merged.contextMode === "none") {
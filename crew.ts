@@ -0,0 +1,492 @@
+/**
+ * Pi Messenger - Crew Task Store and Planner
+ *
+ * A crew plan turns a PRD (or an inline prompt) into task records stored under
+ * <cwd>/.pi/messenger/crew/. Claims for crew tasks use the plan's `spec` path,
+ * so `claim`/`complete` operate on these records.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { execSync, spawn } from "node:child_process";
+import {
+  REVIEW_VERDICTS,
+  type ReviewVerdict,
+  type DependencyIssue,
+  type SpecClaims,
+  type SpecCompletions,
+  findDependencyIssues,
+  reduceDependencies,
+  readyTaskIds,
+} from "./lib.js";
+
+export type CrewTaskStatus = "todo" | "in_progress" | "done" | "blocked";
+
+export interface CrewTask {
+  id: string;
+  title: string;
+  dependsOn: string[];
+  status: CrewTaskStatus;
+  assignee?: string;
+  /** HEAD when the task was last claimed; reviews diff against it. */
+  baseCommit?: string;
+  /** Why the task is blocked, set by `task.block`. */
+  blockedReason?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CrewPlan {
+  /** Claims for crew tasks are keyed by this path: the PRD, or prompt.md for inline prompts. */
+  spec: string;
+  prompt?: string;
+  createdAt: string;
+  /** Task IDs in plan order. */
+  tasks: string[];
+}
+
+/** A task as drafted by the planner, before it gets a `task-N` ID. */
+export interface PlannedTask {
+  title: string;
+  spec: string;
+  dependsOn: string[];
+}
+
+const PRD_NAMES = ["prd.md", "spec.md", "design.md"];
+
+/** Set on spawned workers so their session joins the mesh on start. */
+export const CREW_TASK_ENV = "PI_MESSENGER_CREW_TASK";
+
+export function crewDir(cwd: string): string {
+  return path.join(cwd, ".pi", "messenger", "crew");
+}
+
+function tasksDir(cwd: string): string {
+  return path.join(crewDir(cwd), "tasks");
+}
+
+function readJson<T>(p: string): T | null {
+  try {
+    return JSON.parse(fs.readFileSync(p, "utf-8")) as T;
+  } catch {
+    return null;
+  }
+}
+
+function writeJsonAtomic(p: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(p), { recursive: true });
+  const temp = `${p}.tmp-${process.pid}-${Date.now()}`;
+  fs.writeFileSync(temp, JSON.stringify(data, null, 2));
+  fs.renameSync(temp, p);
+}
+
+export function loadPlan(cwd: string): CrewPlan | null {
+  return readJson<CrewPlan>(path.join(crewDir(cwd), "plan.json"));
+}
+
+export function getTask(cwd: string, id: string): CrewTask | null {
+  if (!/^task-\d+$/.test(id)) return null;
+  return readJson<CrewTask>(path.join(tasksDir(cwd), `${id}.json`));
+}
+
+/** All tasks of the current plan, in plan order. */
+export function getTasks(cwd: string): CrewTask[] {
+  const plan = loadPlan(cwd);
+  if (!plan) return [];
+  return plan.tasks.map(id => getTask(cwd, id)).filter((t): t is CrewTask => t !== null);
+}
+
+export function readTaskSpec(cwd: string, id: string): string {
+  try {
+    return fs.readFileSync(path.join(tasksDir(cwd), `${id}.md`), "utf-8");
+  } catch {
+    return "";
+  }
+}
+
+export function updateTask(
+  cwd: string,
+  id: string,
+  patch: Partial<Omit<CrewTask, "id" | "createdAt">>
+): CrewTask | null {
+  const task = getTask(cwd, id);
+  if (!task) return null;
+  const updated: CrewTask = { ...task, ...patch, updatedAt: new Date().toISOString() };
+  writeJsonAtomic(path.join(tasksDir(cwd), `${id}.json`), updated);
+  return updated;
+}
+
+/** Unclaimed, unfinished tasks whose dependencies are all in `completions`, in plan order. */
+export function readyTasks(cwd: string, completions: SpecCompletions, claims: SpecClaims): CrewTask[] {
+  const tasks = getTasks(cwd);
+  const ready = new Set(readyTaskIds(tasks.filter(t => t.status !== "blocked"), completions, claims));
+  return tasks.filter(t => ready.has(t.id));
+}
+
+/** The crew task `taskId` refers to when claimed under `spec`, or undefined if `spec` isn't the crew plan's. */
+export function crewTaskForClaim(cwd: string, spec: string, taskId: string): CrewTask | null | undefined {
+  const plan = loadPlan(cwd);
+  if (!plan || plan.spec !== spec) return undefined;
+  return getTask(cwd, taskId);
+}
+
+/**
+ * Number planned tasks task-1..task-N. Dependencies given as the planner's
+ * own IDs or as task titles are rewritten to the new IDs; unknown ones are kept as given.
+ */
+function resolvePlannedTasks(planned: Array<PlannedTask & { ref?: string }>): Array<PlannedTask & { id: string }> {
+  const idFor = new Map<string, string>();
+  planned.forEach((t, i) => {
+    const id = `task-${i + 1}`;
+    idFor.set(id, id);
+    idFor.set(t.title.toLowerCase(), id);
+    if (t.ref) idFor.set(t.ref.toLowerCase(), id);
+  });
+  return planned.map((t, i) => ({
+    id: `task-${i + 1}`,
+    title: t.title,
+    spec: t.spec,
+    dependsOn: [...new Set(t.dependsOn.map(d => idFor.get(d.toLowerCase()) ?? d))],
+  }));
+}
+
+/** Cycles and dangling references in a planner's task list, after ID resolution. */
+export function validatePlan(planned: Array<PlannedTask & { ref?: string }>): DependencyIssue[] {
+  return findDependencyIssues(resolvePlannedTasks(planned));
+}
+
+/**
+ * Persist planned tasks as task-1..task-N, dropping dependency edges implied
+ * by others. Call `validatePlan` first: the graph must be acyclic.
+ */
+export function savePlan(
+  cwd: string,
+  spec: string,
+  planned: Array<PlannedTask & { ref?: string }>,
+  prompt?: string
+): { plan: CrewPlan; tasks: CrewTask[] } {
+  const now = new Date().toISOString();
+  const resolved = reduceDependencies(resolvePlannedTasks(planned));
+
+  fs.rmSync(tasksDir(cwd), { recursive: true, force: true });
+  fs.mkdirSync(tasksDir(cwd), { recursive: true });
+
+  const tasks: CrewTask[] = resolved.map(t => {
+    const { id, dependsOn } = t;
+    const task: CrewTask = { id, title: t.title, dependsOn, status: "todo", createdAt: now, updatedAt: now };
+    writeJsonAtomic(path.join(tasksDir(cwd), `${id}.json`), task);
+    fs.writeFileSync(path.join(tasksDir(cwd), `${id}.md`), `# ${t.title}\n\n${t.spec.trim()}\n`);
+    return task;
+  });
+
+  const plan: CrewPlan = { spec, prompt, createdAt: now, tasks: tasks.map(t => t.id) };
+  writeJsonAtomic(path.join(crewDir(cwd), "plan.json"), plan);
+  return { plan, tasks };
+}
+
+/**
+ * Move the current plan, its task files and progress logs to
+ * crew/archive/<timestamp>/, together with the completions (and their reviews)
+ * recorded for it, so replanning doesn't destroy finished work. Returns the
+ * archive directory, or null when there is no plan.
+ */
+export function archivePlan(cwd: string, completions: SpecCompletions = {}): string | null {
+  const planFile = path.join(crewDir(cwd), "plan.json");
+  if (!fs.existsSync(planFile)) return null;
+
+  const dest = path.join(crewDir(cwd), "archive", new Date().toISOString().replace(/[:.]/g, "-"));
+  fs.mkdirSync(dest, { recursive: true });
+  if (fs.existsSync(tasksDir(cwd))) fs.renameSync(tasksDir(cwd), path.join(dest, "tasks"));
+  fs.renameSync(planFile, path.join(dest, "plan.json"));
+  if (Object.keys(completions).length > 0) writeJsonAtomic(path.join(dest, "completions.json"), completions);
+  return dest;
+}
+
+function progressPath(cwd: string, id: string): string {
+  return path.join(tasksDir(cwd), `${id}.progress.md`);
+}
+
+/** The task's progress log, oldest entry first. */
+export function readTaskProgress(cwd: string, id: string): string {
+  try {
+    return fs.readFileSync(progressPath(cwd, id), "utf-8");
+  } catch {
+    return "";
+  }
+}
+
+export function appendTaskProgress(cwd: string, id: string, agent: string, text: string): void {
+  if (!getTask(cwd, id)) return;
+  try {
+    fs.appendFileSync(progressPath(cwd, id), `## ${new Date().toISOString()} - ${agent}\n\n${text.trim()}\n\n`);
+  } catch {
+    // Best effort
+  }
+}
+
+/** Append a planner run's output to planning-progress.md. */
+export function appendPlanningProgress(cwd: string, heading: string, body: string): void {
+  try {
+    fs.mkdirSync(crewDir(cwd), { recursive: true });
+    fs.appendFileSync(
+      path.join(crewDir(cwd), "planning-progress.md"),
+      `## ${heading} (${new Date().toISOString()})\n\n${body.trim()}\n\n`
+    );
+  } catch {
+    // Best effort
+  }
+}
+
+/** First PRD.md, SPEC.md or DESIGN.md (any case) in the project root, then docs/. */
+export function discoverPrd(cwd: string): string | null {
+  for (const dir of [cwd, path.join(cwd, "docs")]) {
+    let entries: string[];
+    try {
+      entries = fs.readdirSync(dir);
+    } catch {
+      continue;
+    }
+    for (const name of PRD_NAMES) {
+      const match = entries.find(e => e.toLowerCase() === name);
+      if (match) return path.join(dir, match);
+    }
+  }
+  return null;
+}
+
+export function buildPlannerPrompt(source: { path?: string; content: string }): string {
+  const origin = source.path ? `the PRD at ${source.path}` : "the request below";
+  return `You are the crew planner. Explore this codebase (read only, do not modify files) and break ${origin} into implementation tasks for parallel workers.
+
+Guidelines:
+- Each task is a coherent unit one worker can finish and verify on its own.
+- Only add a dependency when a task truly needs another task's result; independent work should run in parallel.
+- Each task spec says what to change, where, and how to verify it.
+
+Reply with a single fenced JSON block and nothing after it:
+
+\`\`\`json
+{ "tasks": [ { "id": "task-1", "title": "Short imperative title", "spec": "Markdown spec", "dependsOn": [] } ] }
+\`\`\`
+
+${source.path ? "PRD" : "Request"}:
+
+${source.content.trim()}
+`;
+}
+
+/** Tasks from the planner's reply: its last fenced JSON block, or the whole reply as JSON. */
+export function parsePlannerOutput(text: string): { tasks: Array<PlannedTask & { ref?: string }> } | { error: string } {
+  const blocks = [...text.matchAll(/```(?:json)?\s*\n([\s\S]*?)```/g)].map(m => m[1]);
+  const candidates = blocks.length > 0 ? blocks.reverse() : [text];
+
+  for (const candidate of candidates) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(candidate);
+    } catch {
+      continue;
+    }
+    const rawTasks = Array.isArray(parsed) ? parsed : (parsed as { tasks?: unknown })?.tasks;
+    if (!Array.isArray(rawTasks) || rawTasks.length === 0) continue;
+
+    const tasks: Array<PlannedTask & { ref?: string }> = [];
+    for (const [i, raw] of rawTasks.entries()) {
+      const t = (raw ?? {}) as Record<string, unknown>;
+      if (typeof t.title !== "string" || !t.title.trim()) {
+        return { error: `task ${i + 1} has no title` };
+      }
+      const spec = typeof t.spec === "string" ? t.spec : typeof t.description === "string" ? t.description : "";
+      const deps = Array.isArray(t.dependsOn) ? t.dependsOn : Array.isArray(t.depends_on) ? t.depends_on : [];
+      tasks.push({
+        ref: typeof t.id === "string" ? t.id : undefined,
+        title: t.title.trim(),
+        spec,
+        dependsOn: deps.filter((d): d is string => typeof d === "string"),
+      });
+    }
+    return { tasks };
+  }
+  return { error: "no task list found in the planner output" };
+}
+
+/** Agent name for the worker spawned on a task: task-3 → Worker-3. */
+export function workerName(taskId: string): string {
+  return `Worker-${taskId.replace(/^task-/, "")}`;
+}
+
+export function buildWorkerPrompt(task: CrewTask, spec: string, name: string, progress: string = ""): string {
+  const deps = task.dependsOn.length > 0
+    ? `\nIt builds on ${task.dependsOn.join(", ")}, which are already done.\n`
+    : "";
+  return `You are ${name}, a crew worker. You are assigned ${task.id}: ${task.title}. It is already claimed for you.
+${deps}
+Guidelines:
+- Reserve the files you change with pi_messenger({ action: "reserve", paths: [...] }) and release them when done.
+- Stay within this task. Other workers are implementing other tasks in parallel.
+- Verify your change (type-check, tests) before finishing.
+- Record decisions and partial results with pi_messenger({ action: "task.progress", taskId: "${task.id}", message: "..." }) so a retry can pick up where you left off.
+- When the task is done, call pi_messenger({ action: "complete", taskId: "${task.id}", notes: "<what you changed>" }).
+- If you cannot finish, do not call complete. Call pi_messenger({ action: "task.block", taskId: "${task.id}", reason: "..." }) if something outside the task is in the way.
+
+Task spec:
+
+${spec.trim() || task.title}
+${progress.trim() ? `\nProgress log (earlier attempts and review feedback, oldest first):\n\n${progress.trim()}\n` : ""}`;
+}
+
+export function gitHead(cwd: string): string | undefined {
+  try {
+    return execSync("git rev-parse HEAD", {
+      cwd,
+      encoding: "utf-8",
+      timeout: 2000,
+      stdio: ["pipe", "pipe", "pipe"]
+    }).trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+const MAX_REVIEW_DIFF_BYTES = 64 * 1024;
+
+function diffPath(cwd: string, id: string): string {
+  return path.join(tasksDir(cwd), `${id}.diff`);
+}
+
+/**
+ * Snapshot the task's changes since it was claimed, taken when it is completed
+ * so a later review sees exactly that work and not what landed afterwards.
+ */
+export function recordTaskDiff(cwd: string, id: string): void {
+  const task = getTask(cwd, id);
+  if (!task) return;
+  try {
+    const diff = task.baseCommit ? taskDiff(cwd, task.baseCommit) : "";
+    fs.writeFileSync(diffPath(cwd, id), diff);
+  } catch {
+    // Best effort; the review falls back to the live diff
+  }
+}
+
+/** The diff recorded when the task was completed, or null if there is none. */
+export function readTaskDiff(cwd: string, id: string): string | null {
+  try {
+    return fs.readFileSync(diffPath(cwd, id), "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+/** Changes since `base` (committed and uncommitted) plus untracked files, capped for the reviewer prompt. */
+export function taskDiff(cwd: string, base: string): string {
+  const run = (command: string) => execSync(command, {
+    cwd,
+    encoding: "utf-8",
+    timeout: 10000,
+    maxBuffer: 16 * 1024 * 1024,
+    stdio: ["pipe", "pipe", "pipe"]
+  });
+  try {
+    let diff = run(`git diff ${base}`);
+    const untracked = run("git ls-files --others --exclude-standard").trim();
+    if (untracked) diff += `\nUntracked files:\n${untracked}\n`;
+    if (Buffer.byteLength(diff) > MAX_REVIEW_DIFF_BYTES) {
+      diff = Buffer.from(diff).subarray(0, MAX_REVIEW_DIFF_BYTES).toString("utf-8") +
+        `\n… diff truncated, run \`git diff ${base}\` for the rest\n`;
+    }
+    return diff;
+  } catch {
+    return "";
+  }
+}
+
+export function buildReviewerPrompt(task: CrewTask, spec: string, notes: string | undefined, diff: string): string {
+  const changes = diff.trim()
+    ? `Diff from when the task was claimed to when it was completed (other tasks may have landed in parallel; judge only ${task.id}):\n\n\`\`\`diff\n${diff.trim()}\n\`\`\``
+    : "No diff is available. Inspect the working tree for the changes this task describes.";
+  return `You are the crew reviewer. Review the implementation of ${task.id}: ${task.title}. Read only, do not modify files.
+
+Task spec:
+
+${spec.trim() || task.title}
+
+Worker notes: ${notes?.trim() || "(none)"}
+
+${changes}
+
+Check that the change does what the spec asks, is correct, and is verified. End your reply with your feedback for the worker, then a final line with exactly one verdict:
+
+VERDICT: SHIP          (ready as is)
+VERDICT: NEEDS_WORK    (fixable issues; the task is reopened with your feedback)
+VERDICT: MAJOR_RETHINK (the approach or the plan itself is wrong)
+`;
+}
+
+/** The reviewer's last `VERDICT:` line and the feedback before it. */
+export function parseReviewOutput(text: string): { verdict: ReviewVerdict; feedback: string } | null {
+  const pattern = new RegExp(`VERDICT:\\s*\\**\\s*(${REVIEW_VERDICTS.join("|")})\\b`, "g");
+  const matches = [...text.matchAll(pattern)];
+  const last = matches[matches.length - 1];
+  if (!last || last.index === undefined) return null;
+  return {
+    verdict: last[1] as ReviewVerdict,
+    feedback: text.slice(0, last.index).trim(),
+  };
+}
+
+export interface PiRunResult {
+  exitCode: number | null;
+  output: string;
+  stderr: string;
+  aborted: boolean;
+}
+
+/** Run a headless pi session (`pi -p`) and collect its final reply. */
+export function runPiAgent(options: {
+  cwd: string;
+  prompt: string;
+  model?: string;
+  env?: Record<string, string>;
+  signal?: AbortSignal;
+  /** After an abort's SIGTERM, wait this long before SIGKILL. */
+  graceMs?: number;
+}): Promise<PiRunResult> {
+  const args = ["-p", "--no-session"];
+  if (options.model) args.push("--model", options.model);
+  args.push(options.prompt);
+
+  return new Promise(resolve => {
+    const child = spawn("pi", args, {
+      cwd: options.cwd,
+      env: { ...process.env, ...options.env },
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    let output = "";
+    let stderr = "";
+    let aborted = false;
+    let killTimer: ReturnType<typeof setTimeout> | null = null;
+    const onAbort = () => {
+      aborted = true;
+      child.kill("SIGTERM");
+      killTimer = setTimeout(() => child.kill("SIGKILL"), options.graceMs ?? 5000);
+    };
+    const cleanup = () => {
+      options.signal?.removeEventListener("abort", onAbort);
+      if (killTimer) clearTimeout(killTimer);
+    };
+    options.signal?.addEventListener("abort", onAbort);
+    if (options.signal?.aborted) onAbort();
+
+    child.stdout.on("data", chunk => { output += chunk; });
+    child.stderr.on("data", chunk => { stderr += chunk; });
+    child.on("error", err => {
+      cleanup();
+      resolve({ exitCode: null, output, stderr: stderr || err.message, aborted });
+    });
+    child.on("close", code => {
+      cleanup();
+      resolve({ exitCode: code, output, stderr, aborted });
+    });
+  });
+}
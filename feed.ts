@@ -1,11 +1,14 @@
 /**
  * Pi Messenger - Activity Feed
  *
- * Append-only JSONL feed stored at <cwd>/.pi/messenger/feed.jsonl
+ * Append-only JSONL feed stored at <cwd>/.pi/messenger/feed.jsonl. Reservation
+ * events are also copied to reservations.jsonl, which keeps far more history
+ * than the feed's `feedRetention` so the `reservations` report stays useful.
  */
 
 import * as fs from "node:fs";
 import * as path from "node:path";
+import { pathMatchesReservation, displayReservationPath } from "./lib.js";
 
 export type FeedEventType =
   | "join"
@@ -16,7 +19,10 @@ export type FeedEventType =
   | "commit"
   | "test"
   | "edit"
-  | "stuck";
+  | "stuck"
+  | "blocked"
+  | "force_release"
+  | "loop";
 
 export interface FeedEvent {
   ts: string;
@@ -24,12 +30,25 @@ export interface FeedEvent {
   type: FeedEventType;
   target?: string;
   preview?: string;
+  /** Thread ID of a direct message, so the overlay can open the conversation. */
+  thread?: string;
+  /** Canonical absolute path or pattern of a reservation event, so history lines up across agents' cwds. */
+  path?: string;
 }
 
+type ReservationEventType = "reserve" | "release" | "force_release" | "blocked";
+
+const RESERVATION_HISTORY_TYPES = new Set<FeedEventType>(["reserve", "release", "force_release", "blocked", "leave"]);
+const RESERVATION_LOG_RETENTION = 5000;
+
 function feedPath(cwd: string): string {
   return path.join(cwd, ".pi", "messenger", "feed.jsonl");
 }
 
+function reservationLogPath(cwd: string): string {
+  return path.join(cwd, ".pi", "messenger", "reservations.jsonl");
+}
+
 export function appendFeedEvent(cwd: string, event: FeedEvent): void {
   const p = feedPath(cwd);
   try {
@@ -38,13 +57,24 @@ export function appendFeedEvent(cwd: string, event: FeedEvent): void {
       fs.mkdirSync(feedDir, { recursive: true });
     }
     fs.appendFileSync(p, JSON.stringify(event) + "\n");
+    if (RESERVATION_HISTORY_TYPES.has(event.type)) {
+      fs.appendFileSync(reservationLogPath(cwd), JSON.stringify(event) + "\n");
+    }
   } catch {
     // Best effort
   }
 }
 
 export function readFeedEvents(cwd: string, limit: number = 20): FeedEvent[] {
-  const p = feedPath(cwd);
+  return readEvents(feedPath(cwd), limit);
+}
+
+/** Reservation, release, force-release, blocked-edit and leave events, oldest first. */
+export function readReservationEvents(cwd: string): FeedEvent[] {
+  return readEvents(reservationLogPath(cwd), RESERVATION_LOG_RETENTION);
+}
+
+function readEvents(p: string, limit: number): FeedEvent[] {
   if (!fs.existsSync(p)) return [];
 
   try {
@@ -66,7 +96,11 @@ export function readFeedEvents(cwd: string, limit: number = 20): FeedEvent[] {
 }
 
 export function pruneFeed(cwd: string, maxEvents: number): void {
-  const p = feedPath(cwd);
+  pruneLog(feedPath(cwd), maxEvents);
+  pruneLog(reservationLogPath(cwd), RESERVATION_LOG_RETENTION);
+}
+
+function pruneLog(p: string, maxEvents: number): void {
   if (!fs.existsSync(p)) return;
 
   try {
@@ -95,7 +129,10 @@ export function formatFeedLine(event: FeedEvent): string {
     case "join": line += " joined"; break;
     case "leave": line = withPreview(line + " left"); break;
     case "reserve": line += ` reserved ${event.target ?? ""}`; break;
-    case "release": line += ` released ${event.target ?? ""}`; break;
+    case "release":
+      line += ` released ${event.target ?? ""}`;
+      if (preview) line += ` (${preview})`;
+      break;
     case "message":
       if (event.target) {
         line += ` → ${event.target}`;
@@ -113,6 +150,18 @@ export function formatFeedLine(event: FeedEvent): string {
       break;
     case "edit": line += ` editing ${event.target ?? ""}`; break;
     case "stuck": line += " appears stuck"; break;
+    case "force_release":
+      line += ` force-released ${event.target ?? ""}`;
+      if (preview) line += ` from ${preview}`;
+      break;
+    case "loop":
+      line += ` suppressed a reply loop with ${event.target ?? ""}`;
+      if (preview) line += ` (${preview})`;
+      break;
+    case "blocked":
+      line += ` blocked on ${event.target ?? ""}`;
+      if (preview) line += ` (held by ${preview})`;
+      break;
     default: line += ` ${event.type}`; break;
   }
   return line;
@@ -123,7 +172,8 @@ export function logFeedEvent(
   agent: string,
   type: FeedEventType,
   target?: string,
-  preview?: string
+  preview?: string,
+  thread?: string
 ): void {
   appendFeedEvent(cwd, {
     ts: new Date().toISOString(),
@@ -131,5 +181,146 @@ export function logFeedEvent(
     type,
     target,
     preview,
+    thread,
+  });
+}
+
+/**
+ * Log a reservation event. `pattern` is the canonical absolute path or pattern;
+ * the feed line shows it relative to `cwd`.
+ */
+export function logReservationEvent(
+  cwd: string,
+  agent: string,
+  type: ReservationEventType,
+  pattern: string,
+  preview?: string
+): void {
+  appendFeedEvent(cwd, {
+    ts: new Date().toISOString(),
+    agent,
+    type,
+    target: displayReservationPath(pattern, cwd),
+    preview,
+    path: pattern,
   });
 }
+
+// =============================================================================
+// Reservation History
+// =============================================================================
+
+export interface ReservationHold {
+  agent: string;
+  pattern: string;
+  reason?: string;
+  since: string;
+  until?: string;
+  /** Why the hold ended: release preview (e.g. "expired"), "left" or who force-released it */
+  endedBy?: string;
+  durationMs: number;
+  blocked: number;
+}
+
+export interface PathContention {
+  pattern: string;
+  holds: number;
+  holders: string[];
+  heldMs: number;
+  blocked: number;
+}
+
+export interface ReservationReport {
+  holds: ReservationHold[];
+  paths: PathContention[];
+  /** `blocked` events that matched no open hold (e.g. the reserve fell out of the feed) */
+  unattributedBlocks: number;
+}
+
+/**
+ * Rebuild reservation holds from `reserve`/`release`/`force_release`/`leave`/
+ * `blocked` feed events. Each `blocked` event is charged to the open hold of
+ * the named holder whose pattern covers the blocked path. Paths are ranked
+ * hottest first: most blocked edits, then most holds, then longest total hold
+ * time.
+ */
+export function buildReservationReport(events: FeedEvent[], now: number = Date.now()): ReservationReport {
+  const holds: ReservationHold[] = [];
+  const open = new Map<string, ReservationHold>();
+  let unattributedBlocks = 0;
+
+  const close = (key: string, hold: ReservationHold, ts: string, endedBy?: string) => {
+    hold.until = ts;
+    hold.endedBy = endedBy;
+    hold.durationMs = new Date(ts).getTime() - new Date(hold.since).getTime();
+    open.delete(key);
+  };
+
+  for (const event of events) {
+    const target = event.path ?? event.target;
+    const key = `${event.agent}\0${target ?? ""}`;
+    switch (event.type) {
+      case "reserve": {
+        if (!target || open.has(key)) break;
+        const hold: ReservationHold = {
+          agent: event.agent,
+          pattern: target,
+          reason: event.preview,
+          since: event.ts,
+          durationMs: 0,
+          blocked: 0,
+        };
+        holds.push(hold);
+        open.set(key, hold);
+        break;
+      }
+      case "release": {
+        const hold = open.get(key);
+        if (hold) close(key, hold, event.ts, event.preview);
+        break;
+      }
+      case "force_release": {
+        const holderKey = `${event.preview ?? ""}\0${target ?? ""}`;
+        const hold = open.get(holderKey);
+        if (hold) close(holderKey, hold, event.ts, `force-released by ${event.agent}`);
+        break;
+      }
+      case "leave": {
+        for (const [k, hold] of open) {
+          if (hold.agent === event.agent) close(k, hold, event.ts, "left");
+        }
+        break;
+      }
+      case "blocked": {
+        const candidates = [...open.values()].filter(h => pathMatchesReservation(target ?? "", h.pattern));
+        const hold = candidates.find(h => h.agent === event.preview) ?? candidates[0];
+        if (hold) hold.blocked++;
+        else unattributedBlocks++;
+        break;
+      }
+    }
+  }
+
+  for (const hold of open.values()) {
+    hold.durationMs = now - new Date(hold.since).getTime();
+  }
+
+  const byPattern = new Map<string, PathContention>();
+  for (const hold of holds) {
+    let entry = byPattern.get(hold.pattern);
+    if (!entry) {
+      entry = { pattern: hold.pattern, holds: 0, holders: [], heldMs: 0, blocked: 0 };
+      byPattern.set(hold.pattern, entry);
+    }
+    entry.holds++;
+    if (!entry.holders.includes(hold.agent)) entry.holders.push(hold.agent);
+    entry.heldMs += hold.durationMs;
+    entry.blocked += hold.blocked;
+  }
+
+  const paths = [...byPattern.values()].sort((a, b) =>
+    b.blocked - a.blocked || b.holds - a.holds || b.heldMs - a.heldMs
+  );
+
+  return { holds, paths, unattributedBlocks };
+}
@@ -2,7 +2,8 @@
  * Pi Messenger - Tool and Command Handlers
  */
 
-import { existsSync } from "node:fs";
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from "node:fs";
+import { join, relative } from "node:path";
 import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
 import {
   type MessengerState,
@@ -12,6 +13,11 @@ import {
   type NameThemeConfig,
   type SpecClaims,
   type SpecCompletions,
+  type FileReservation,
+  type ReservationMode,
+  type WaitEntry,
+  type MessagePriority,
+  type MessageAttachment,
   extractFolder,
   truncatePathLeft,
   displaySpecPath,
@@ -21,10 +27,49 @@ import {
   formatDuration,
   buildSelfRegistration,
   agentHasTask,
+  formatReservationPattern,
+  displayReservationPath,
+  formatReservationExpiry,
+  reservationOverlapOutcome,
+  reservationBlocksEdits,
+  pathMatchesReservation,
+  globsOverlap,
+  checkAttachmentLimits,
+  formatAttachmentsForAgent,
+  parseChannelTarget,
+  isMessageRef,
+  checkOutboundBudget,
+  recordOutbound,
+  outboundCounts,
+  type OutboundBudget,
+  type ReviewRecord,
+  isCompletionReopened,
+  isTaskDone,
+  pendingDependencies,
+  readyTaskIds,
 } from "./lib.js";
 import * as store from "./store.js";
-import { getAutoRegisterPaths, saveAutoRegisterPaths, matchesAutoRegisterPath } from "./config.js";
-import { readFeedEvents, logFeedEvent, pruneFeed, formatFeedLine, type FeedEvent } from "./feed.js";
+import { getAutoRegisterPaths, saveAutoRegisterPaths, matchesAutoRegisterPath, type CrewConfig } from "./config.js";
+import {
+  readFeedEvents,
+  readReservationEvents,
+  logFeedEvent,
+  logReservationEvent,
+  pruneFeed,
+  formatFeedLine,
+  buildReservationReport,
+  type FeedEvent,
+} from "./feed.js";
+import {
+  archiveMessage,
+  queryArchive,
+  findArchivedMessage,
+  getArchivedThread,
+  pruneArchive,
+  parseTimeBound,
+  type ArchiveQuery,
+} from "./archive.js";
+import * as crew from "./crew.js";
 
 // =============================================================================
 // Tool Result Helper
@@ -60,7 +105,8 @@ export function executeJoin(
   updateStatusFn: (ctx: ExtensionContext) => void,
   specPath?: string,
   nameTheme?: NameThemeConfig,
-  feedRetention?: number
+  feedRetention?: number,
+  archiveRetention?: number
 ) {
   if (state.registered) {
     const agents = store.getActiveAgents(state, dirs);
@@ -83,6 +129,7 @@ export function executeJoin(
   store.startWatcher(state, dirs, deliverFn);
   updateStatusFn(ctx);
   pruneFeed(cwd, feedRetention ?? 50);
+  pruneArchive(cwd, archiveRetention ?? 5000);
   logFeedEvent(cwd, state.agentName, "join");
 
   let specWarning = "";
@@ -146,9 +193,15 @@ export function executeStatus(state: MessengerState, dirs: Dirs, cwd: string = p
 
   text += `Peers: ${agents.length}\n`;
   if (state.reservations.length > 0) {
-    const myRes = state.reservations.map(r => `🔒 ${truncatePathLeft(r.pattern, 40)}`);
+    const myRes = state.reservations.map(r => `🔒 ${truncatePathLeft(formatReservationPattern(r, cwd), 40)}${formatReservationExpiry(r)}`);
     text += `Reservations: ${myRes.join(", ")}\n`;
   }
+  const undelivered = store.getUndeliveredMessages(state);
+  if (undelivered.length > 0) {
+    const shown = undelivered.slice(0, 5).map(m => `${m.to} (sent ${formatDuration(Date.now() - new Date(m.timestamp).getTime())} ago)`);
+    if (undelivered.length > shown.length) shown.push(`+${undelivered.length - shown.length} more`);
+    text += `Undelivered: ${shown.join(", ")}\n`;
+  }
   text += `\nUse pi_messenger({ action: "list" }) for details, pi_messenger({ action: "feed" }) for activity.`;
 
   return result(text, {
@@ -165,7 +218,8 @@ export function executeStatus(state: MessengerState, dirs: Dirs, cwd: string = p
         spec: displaySpecPath(myClaim.spec, cwd)
       }
       : undefined,
-    reservations: state.reservations
+    reservations: state.reservations,
+    undelivered,
   });
 }
 
@@ -218,7 +272,7 @@ export function executeList(state: MessengerState, dirs: Dirs, cwd: string = pro
     }
 
     if (a.reservations && a.reservations.length > 0) {
-      const resParts = a.reservations.map(r => r.pattern).join(", ");
+      const resParts = a.reservations.map(r => formatReservationPattern(r, cwd)).join(", ");
       parts.push(`\u{1F4C1} ${resParts}`);
     }
 
@@ -258,12 +312,26 @@ export function executeSend(
   to: string | string[] | undefined,
   broadcast: boolean | undefined,
   message?: string,
-  replyTo?: string
+  replyTo?: string,
+  offlineRetention: number = 0,
+  priority?: MessagePriority,
+  attachments?: MessageAttachment[],
+  budget?: OutboundBudget
 ) {
   if (!state.registered) {
     return notRegisteredError();
   }
 
+  if (attachments && attachments.length > 0) {
+    const limitError = checkAttachmentLimits(attachments);
+    if (limitError) {
+      return result(
+        `Error: ${limitError}.`,
+        { mode: "send", error: "attachments_too_large" }
+      );
+    }
+  }
+
   if (!message) {
     return result(
       "Error: message is required when sending.",
@@ -296,8 +364,35 @@ export function executeSend(
     );
   }
 
+  if (budget) {
+    // A channel post is one message per active member it reaches; channels the
+    // send loop rejects (unknown, or we're not a member) reach no one
+    const deliveries = recipients.reduce((n, recipient) => {
+      const channelName = parseChannelTarget(recipient);
+      if (channelName === null) return n + 1;
+      const channel = store.getChannel(dirs, channelName);
+      if (!channel || !channel.members.includes(state.agentName)) return n;
+      return n + channel.members.filter(m => m !== state.agentName && store.validateTargetAgent(m, dirs).valid).length;
+    }, 0);
+    const exceeded = checkOutboundBudget(state.outbound, budget, {
+      broadcast: broadcast === true,
+      recipients: deliveries,
+      bytes: Buffer.byteLength(message, "utf-8"),
+    });
+    if (exceeded) {
+      return result(
+        `Error: outbound budget exceeded: ${exceeded.reason}.`,
+        { mode: "send", error: exceeded.error, ...outboundCounts(state.outbound) }
+      );
+    }
+  }
+
+  const parent = replyTo ? findArchivedMessage(cwd, replyTo) : null;
   const sent: string[] = [];
+  const queued: string[] = [];
   const failed: Array<{ name: string; error: string }> = [];
+  const threads: Record<string, string | undefined> = {};
+  let delivered = 0;
 
   for (const recipient of recipients) {
     if (recipient === state.agentName) {
@@ -305,7 +400,47 @@ export function executeSend(
       continue;
     }
 
+    const channelName = parseChannelTarget(recipient);
+    if (channelName !== null) {
+      const channel = store.getChannel(dirs, channelName);
+      if (!channel) {
+        failed.push({ name: recipient, error: "no such channel" });
+        continue;
+      }
+      if (!channel.members.includes(state.agentName)) {
+        failed.push({ name: recipient, error: "not a member, use channel.join first" });
+        continue;
+      }
+      try {
+        const fanout = store.sendChannelMessage(state, dirs, channel, message, parent, priority, attachments);
+        if (fanout.sent.length === 0) {
+          failed.push({ name: recipient, error: "no other active members" });
+          continue;
+        }
+        sent.push(`#${channel.name}`);
+        delivered += fanout.sent.length;
+        for (const msg of fanout.sent) archiveMessage(cwd, msg);
+      } catch (err) {
+        failed.push({ name: recipient, error: err instanceof Error ? err.message : "write failed" });
+      }
+      continue;
+    }
+
     const validation = store.validateTargetAgent(recipient, dirs);
+    const offline = !validation.valid
+      && ((validation as { error: string }).error === "not_found" || (validation as { error: string }).error === "not_active");
+    if (offline && offlineRetention > 0 && !broadcast && store.isKnownIdentity(dirs, recipient)) {
+      try {
+        const msg = store.queueOfflineMessage(state, dirs, recipient, message, offlineRetention, parent, priority, attachments);
+        queued.push(recipient);
+        delivered++;
+        threads[recipient] = msg.threadId;
+        archiveMessage(cwd, msg);
+      } catch (err) {
+        failed.push({ name: recipient, error: err instanceof Error ? err.message : "write failed" });
+      }
+      continue;
+    }
     if (!validation.valid) {
       const errorMap: Record<string, string> = {
         invalid_name: "invalid name",
@@ -319,38 +454,312 @@ export function executeSend(
     }
 
     try {
-      store.sendMessageToAgent(state, dirs, recipient, message, replyTo);
+      const msg = store.sendMessageToAgent(state, dirs, recipient, message, parent, priority, attachments);
       sent.push(recipient);
+      delivered++;
+      threads[recipient] = msg.threadId;
+      archiveMessage(cwd, msg);
     } catch (err) {
       const msg = err instanceof Error ? err.message : "write failed";
       failed.push({ name: recipient, error: msg });
     }
   }
 
-  if (sent.length === 0) {
+  if (sent.length === 0 && queued.length === 0) {
     const failedStr = failed.map(f => `${f.name} (${f.error})`).join(", ");
     return result(
       `Failed to send: ${failedStr}`,
-      { mode: "send", error: "all_failed", sent: [], failed }
+      { mode: "send", error: "all_failed", sent: [], queued: [], failed }
     );
   }
 
+  recordOutbound(state.outbound, broadcast === true, delivered);
+
   const preview = message.length > 200 ? message.slice(0, 197) + "..." : message;
   if (broadcast) {
     logFeedEvent(cwd, state.agentName, "message", undefined, preview);
   } else {
-    for (const name of sent) {
-      logFeedEvent(cwd, state.agentName, "message", name, preview);
+    for (const name of [...sent, ...queued]) {
+      logFeedEvent(cwd, state.agentName, "message", name, preview, threads[name]);
     }
   }
 
-  let text = `Message sent to ${sent.join(", ")}.`;
+  const parts: string[] = [];
+  if (sent.length > 0) parts.push(`Message sent to ${sent.join(", ")}.`);
+  if (queued.length > 0) {
+    parts.push(`Queued for offline agent${queued.length === 1 ? "" : "s"}: ${queued.join(", ")} (delivered when ${queued.length === 1 ? "it registers" : "they register"} again).`);
+  }
+  let text = parts.join(" ");
   if (failed.length > 0) {
     const failedStr = failed.map(f => `${f.name} (${f.error})`).join(", ");
     text += ` Failed: ${failedStr}`;
   }
+  if (replyTo && !parent) {
+    text += ` Note: no archived message matches replyTo "${replyTo}", so this started a new thread.`;
+  }
+
+  return result(text, { mode: "send", sent, queued, failed, threads });
+}
+
+/**
+ * Send a question and block until the recipient replies to it, the timeout
+ * elapses or the tool call is aborted. The answer is returned as the result.
+ */
+export async function executeAsk(
+  state: MessengerState,
+  dirs: Dirs,
+  cwd: string,
+  to: string | undefined,
+  question: string | undefined,
+  timeoutSec: number,
+  signal?: AbortSignal,
+  priority?: MessagePriority,
+  budget?: OutboundBudget
+) {
+  if (!state.registered) {
+    return notRegisteredError();
+  }
+
+  if (!to) {
+    return result(
+      "Error: 'to' is required for ask.",
+      { mode: "ask", error: "missing_recipient" }
+    );
+  }
+
+  if (!question) {
+    return result(
+      "Error: message is required for ask.",
+      { mode: "ask", error: "missing_message" }
+    );
+  }
+
+  if (to === state.agentName) {
+    return result(
+      "Error: cannot ask yourself.",
+      { mode: "ask", error: "self_target" }
+    );
+  }
+
+  const validation = store.validateTargetAgent(to, dirs);
+  if (!validation.valid) {
+    return result(
+      `Error: ${to} is not an active agent; questions can't wait for offline agents.`,
+      { mode: "ask", error: "recipient_unavailable" }
+    );
+  }
+
+  if (budget) {
+    const exceeded = checkOutboundBudget(state.outbound, budget, {
+      broadcast: false,
+      recipients: 1,
+      bytes: Buffer.byteLength(question, "utf-8"),
+    });
+    if (exceeded) {
+      return result(
+        `Error: outbound budget exceeded: ${exceeded.reason}.`,
+        { mode: "ask", error: exceeded.error, ...outboundCounts(state.outbound) }
+      );
+    }
+  }
+
+  let sent: AgentMailMessage;
+  try {
+    sent = store.sendMessageToAgent(state, dirs, to, question, undefined, priority, undefined, true);
+  } catch (err) {
+    return result(
+      `Error: failed to send question to ${to}: ${err instanceof Error ? err.message : "write failed"}`,
+      { mode: "ask", error: "send_failed" }
+    );
+  }
+  recordOutbound(state.outbound, false, 1);
+  archiveMessage(cwd, sent);
+  const preview = question.length > 200 ? question.slice(0, 197) + "..." : question;
+  logFeedEvent(cwd, state.agentName, "message", to, preview, sent.threadId);
+
+  const answer = await store.awaitReply(sent.id, timeoutSec * 1000, signal);
+
+  if (!answer) {
+    const aborted = signal?.aborted === true;
+    const reason = aborted ? "Stopped waiting" : `No answer within ${formatDuration(timeoutSec * 1000)}`;
+    return result(
+      `${reason} for ${to}. The question stays with them; a later reply arrives as a normal message.`,
+      { mode: "ask", error: aborted ? "aborted" : "timeout", to, questionId: sent.id }
+    );
+  }
+
+  archiveMessage(cwd, answer);
+  store.sendReceipt(state, dirs, answer, "read");
+
+  let text = `${answer.from} answered:\n\n${answer.text}`;
+  if (answer.attachments && answer.attachments.length > 0) {
+    text += `\n\n${formatAttachmentsForAgent(answer.attachments)}`;
+  }
+  return result(text, { mode: "ask", to, questionId: sent.id, answer });
+}
+
+const CHANNEL_ERRORS: Record<string, string> = {
+  invalid_name: "channel names are 1-32 lowercase letters, digits, '-' or '_'",
+  exists: "channel already exists",
+  not_found: "no such channel",
+  not_member: "you are not a member",
+};
+
+function channelError(mode: string, name: string, error: string) {
+  return result(`Error: #${name}: ${CHANNEL_ERRORS[error]}.`, { mode, error, channel: name });
+}
+
+export async function executeChannelCreate(state: MessengerState, dirs: Dirs, name: string | undefined) {
+  if (!name) {
+    return result("Error: channel name required.", { mode: "channel.create", error: "missing_channel" });
+  }
+  const created = await store.createChannel(dirs, name, state.agentName);
+  if (!store.isChannelSuccess(created)) {
+    return channelError("channel.create", name.replace(/^#/, ""), (created as { error: string }).error);
+  }
+  return result(
+    `Created #${created.channel.name}. Others join with pi_messenger({ action: "channel.join", channel: "${created.channel.name}" }); post with to: "channel:${created.channel.name}".`,
+    { mode: "channel.create", channel: created.channel }
+  );
+}
+
+export async function executeChannelMembership(
+  state: MessengerState,
+  dirs: Dirs,
+  name: string | undefined,
+  joining: boolean
+) {
+  const mode = joining ? "channel.join" : "channel.leave";
+  if (!name) {
+    return result("Error: channel name required.", { mode, error: "missing_channel" });
+  }
+  const updated = await store.updateChannelMembership(dirs, name, state.agentName, joining);
+  if (!store.isChannelSuccess(updated)) {
+    return channelError(mode, name.replace(/^#/, ""), (updated as { error: string }).error);
+  }
+  const { channel } = updated;
+  const text = joining
+    ? `Joined #${channel.name} (${channel.members.length} member${channel.members.length === 1 ? "" : "s"}: ${channel.members.join(", ")}).`
+    : `Left #${channel.name}.`;
+  return result(text, { mode, channel });
+}
+
+export function executeChannelList(state: MessengerState, dirs: Dirs) {
+  const channels = store.getChannels(dirs);
+  if (channels.length === 0) {
+    return result(
+      'No channels yet. Create one with pi_messenger({ action: "channel.create", channel: "frontend" }).',
+      { mode: "channel.list", channels: [] }
+    );
+  }
+  const active = new Set(store.getActiveAgents(state, dirs).map(a => a.name));
+  active.add(state.agentName);
+  const lines = channels.map(c => {
+    const members = c.members.map(m => (active.has(m) ? m : `${m} (offline)`)).join(", ") || "no members";
+    const joined = c.members.includes(state.agentName) ? " ✓" : "";
+    return `#${c.name}${joined} — ${members}`;
+  });
+  return result(`# Channels\n\n${lines.join("\n")}`, { mode: "channel.list", channels });
+}
+
+export interface ArchiveFilters {
+  from?: string;
+  to?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+function formatArchiveLine(msg: AgentMailMessage): string {
+  const when = new Date(msg.timestamp).toLocaleString("en-US", {
+    month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit", hour12: false,
+  });
+  const text = msg.text.replace(/\s*\n\s*/g, " ");
+  const preview = text.length > 200 ? text.slice(0, 197) + "..." : text;
+  return `[${when}] ${msg.from} → ${msg.to} (${msg.id.slice(0, 8)}): ${preview}`;
+}
+
+function runArchiveQuery(cwd: string, mode: "history" | "search", filters: ArchiveFilters, text?: string) {
+  const query: ArchiveQuery = { from: filters.from, to: filters.to, text, limit: filters.limit ?? 20 };
+  for (const bound of ["since", "until"] as const) {
+    const raw = filters[bound];
+    if (!raw) continue;
+    const parsed = parseTimeBound(raw);
+    if (!parsed) {
+      return result(
+        `Error: ${bound} must be an ISO date or a relative duration like "30m", "2h" or "7d".`,
+        { mode, error: "invalid_time" }
+      );
+    }
+    query[bound] = parsed;
+  }
+
+  const messages = queryArchive(cwd, query);
+  const title = mode === "search" ? `# Search "${text}"` : "# Message History";
+  if (messages.length === 0) {
+    return result(`${title}\n\nNo matching messages.`, { mode, messages: [] });
+  }
+
+  const count = `${messages.length} message${messages.length === 1 ? "" : "s"}`;
+  const lines = [`${title} (${count})`, ""];
+  for (const msg of messages) lines.push(formatArchiveLine(msg));
+  return result(lines.join("\n"), { mode, messages });
+}
+
+export function executeHistory(cwd: string, filters: ArchiveFilters) {
+  return runArchiveQuery(cwd, "history", filters);
+}
+
+export function executeSearch(cwd: string, text: string | undefined, filters: ArchiveFilters) {
+  if (!text?.trim()) {
+    return result(
+      "Error: query required for search action.",
+      { mode: "search", error: "missing_query" }
+    );
+  }
+  return runArchiveQuery(cwd, "search", filters, text.trim());
+}
+
+export function executeThread(
+  cwd: string,
+  ref?: string,
+) {
+  if (!ref) {
+    return result(
+      "Error: threadId required for thread action.",
+      { mode: "thread", error: "missing_thread" }
+    );
+  }
+
+  if (!isMessageRef(ref)) {
+    return result(
+      `Error: "${ref}" is not a thread or message ID.`,
+      { mode: "thread", error: "invalid_thread", threadId: ref }
+    );
+  }
+
+  const messages = getArchivedThread(cwd, ref);
+  if (messages.length === 0) {
+    return result(
+      `Error: no thread or message matching "${ref}".`,
+      { mode: "thread", error: "not_found", threadId: ref }
+    );
+  }
+
+  const threadId = messages[0].threadId ?? messages[0].id;
+  const participants = [...new Set(messages.flatMap(m => [m.from, m.to]))];
+  const lines: string[] = [
+    `# Thread ${threadId.slice(0, 8)} (${participants.join(" ↔ ")}, ${messages.length} message${messages.length === 1 ? "" : "s"})`,
+    "",
+  ];
+  for (const msg of messages) {
+    const time = new Date(msg.timestamp).toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit", hour12: false });
+    lines.push(`[${time}] ${msg.from} → ${msg.to} (${msg.id.slice(0, 8)}):`);
+    lines.push(...msg.text.split("\n").map(l => `  ${l}`));
+  }
+  lines.push("", `Reply: pi_messenger({ action: "send", to: "...", message: "...", replyTo: "${messages[messages.length - 1].id}" })`);
 
-  return result(text, { mode: "send", sent, failed });
+  return result(lines.join("\n"), { mode: "thread", threadId, messages });
 }
 
 export function executeReserve(
@@ -358,7 +767,9 @@ export function executeReserve(
   dirs: Dirs,
   ctx: ExtensionContext,
   patterns: string[],
-  reason?: string
+  reason?: string,
+  ttl?: number,
+  mode: ReservationMode = "exclusive"
 ) {
   if (!state.registered) {
     return notRegisteredError();
@@ -371,23 +782,87 @@ export function executeReserve(
     );
   }
 
-  const now = new Date().toISOString();
+  // "!pattern" entries carve exclusions out of the other patterns in the same call
+  const positive = patterns.filter(p => !p.startsWith("!"));
+  const exclude = patterns.filter(p => p.startsWith("!")).map(p => p.slice(1)).filter(Boolean);
+
+  if (positive.length === 0) {
+    return result(
+      "Error: at least one non-negated pattern required.",
+      { mode: "reserve", error: "only_negated_patterns" }
+    );
+  }
+
+  const cwd = ctx.cwd ?? process.cwd();
+  const nowMs = Date.now();
+  const now = new Date(nowMs).toISOString();
+  const lease = ttl && ttl > 0
+    ? { ttl, expiresAt: new Date(nowMs + ttl * 1000).toISOString() }
+    : {};
+  const added: FileReservation[] = positive.map(pattern => store.canonicalizeReservation(
+    {
+      pattern,
+      mode: mode === "exclusive" ? undefined : mode,
+      reason,
+      since: now,
+      exclude: exclude.length > 0 ? exclude : undefined,
+      ...lease,
+    },
+    cwd
+  ));
+
+  const allOverlaps = store.getReservationOverlaps(added, state, dirs);
+  const rejected = allOverlaps.filter(o => reservationOverlapOutcome(mode, o.mode) === "reject");
+  const overlaps = allOverlaps.filter(o => reservationOverlapOutcome(mode, o.mode) === "warn");
+
+  if (rejected.length > 0) {
+    const lines = ["Error: cannot take an exclusive reservation over shared reservations held by other agents:"];
+    for (const o of rejected) {
+      lines.push(`- ${displayReservationPath(o.path, cwd)} ↔ ${displayReservationPath(o.pattern, cwd)} (${o.agent}${o.reason ? `: ${o.reason}` : ""})`);
+    }
+    lines.push("", `Use mode: "shared" to join them, or coordinate via pi_messenger({ action: "send", to: "${rejected[0].agent}", message: "..." })`);
+    return result(lines.join("\n"), {
+      mode: "reserve",
+      error: "shared_conflict",
+      conflicts: rejected.map(o => ({ pattern: o.path, agent: o.agent, theirPattern: o.pattern, reason: o.reason }))
+    });
+  }
 
-  for (const pattern of patterns) {
-    state.reservations = state.reservations.filter(r => r.pattern !== pattern);
-    state.reservations.push({ pattern, reason, since: now });
+  for (const reservation of added) {
+    state.reservations = state.reservations.filter(r => r.pattern !== reservation.pattern);
+    state.reservations.push(reservation);
   }
 
   store.updateRegistration(state, dirs, ctx);
 
-  for (const pattern of patterns) {
-    logFeedEvent(ctx.cwd ?? process.cwd(), state.agentName, "reserve", pattern, reason);
+  for (const r of added) {
+    logReservationEvent(cwd, state.agentName, "reserve", r.pattern, reason);
+  }
+
+  let text = `Reserved: ${added.map(r => formatReservationPattern(r, cwd)).join(", ")}`;
+  if (lease.ttl) text += ` for ${formatDuration(lease.ttl * 1000)}`;
+  if (overlaps.length > 0) {
+    text += "\n\nWarning: overlaps with reservations held by other agents:";
+    for (const o of overlaps) {
+      const theirs = displayReservationPath(o.pattern, cwd);
+      const theirMode = o.mode === "exclusive" ? "" : ` [${o.mode}]`;
+      text += `\n- ${displayReservationPath(o.path, cwd)} ↔ ${theirs}${theirMode} (${o.agent}${o.reason ? `: ${o.reason}` : ""})`;
+    }
+    text += `\n\nCoordinate via pi_messenger({ action: "send", to: "${overlaps[0].agent}", message: "..." })`;
   }
 
-  return result(`Reserved: ${patterns.join(", ")}`, { mode: "reserve", patterns, reason });
+  return result(text, {
+    mode: "reserve",
+    patterns: added.map(r => r.pattern),
+    exclude: added[0].exclude,
+    reservationMode: mode,
+    reason,
+    expiresAt: lease.expiresAt,
+    overlaps: overlaps.map(o => ({ pattern: o.path, agent: o.agent, theirPattern: o.pattern, theirMode: o.mode, reason: o.reason }))
+  });
 }
 
-export function executeRelease(
+export async function executeRelease(
   state: MessengerState,
   dirs: Dirs,
   ctx: ExtensionContext,
@@ -397,32 +872,221 @@ export function executeRelease(
     return notRegisteredError();
   }
 
+  const cwd = ctx.cwd ?? process.cwd();
+
   if (release === true) {
     const released = state.reservations.map(r => r.pattern);
     state.reservations = [];
     store.updateRegistration(state, dirs, ctx);
+    const displayed = released.map(p => displayReservationPath(p, cwd));
     for (const pattern of released) {
-      logFeedEvent(ctx.cwd ?? process.cwd(), state.agentName, "release", pattern);
+      logReservationEvent(cwd, state.agentName, "release", pattern);
     }
+    const notified = released.length > 0 ? await notifyWaiters(state, dirs) : [];
     return result(
-      released.length > 0 ? `Released all: ${released.join(", ")}` : "No reservations to release.",
-      { mode: "release", released }
+      (released.length > 0 ? `Released all: ${displayed.join(", ")}` : "No reservations to release.") +
+        formatNotifiedWaiters(notified, cwd),
+      { mode: "release", released, notified: notified.map(w => ({ agent: w.agent, path: w.path })) }
     );
   }
 
-  const patterns = release;
+  const patterns = release.map(p => store.canonicalizePath(p, cwd));
   const releasedPatterns = state.reservations.filter(r => patterns.includes(r.pattern)).map(r => r.pattern);
   state.reservations = state.reservations.filter(r => !patterns.includes(r.pattern));
 
   store.updateRegistration(state, dirs, ctx);
   for (const pattern of releasedPatterns) {
-    logFeedEvent(ctx.cwd ?? process.cwd(), state.agentName, "release", pattern);
+    logReservationEvent(cwd, state.agentName, "release", pattern);
+  }
+  const notified = releasedPatterns.length > 0 ? await notifyWaiters(state, dirs) : [];
+
+  return result(
+    `Released ${releasedPatterns.length} reservation(s).` + formatNotifiedWaiters(notified, cwd),
+    { mode: "release", released: releasedPatterns, notified: notified.map(w => ({ agent: w.agent, path: w.path })) }
+  );
+}
+
+async function notifyWaiters(state: MessengerState, dirs: Dirs, releasedBy = state.agentName): Promise<WaitEntry[]> {
+  try {
+    return await store.processWaitQueue(dirs, releasedBy);
+  } catch {
+    // The queue is retried on the next release; never fail the release itself
+    return [];
   }
+}
 
-  return result(`Released ${releasedPatterns.length} reservation(s).`, { mode: "release", released: releasedPatterns });
+function formatNotifiedWaiters(notified: WaitEntry[], cwd: string): string {
+  if (notified.length === 0) return "";
+  return "\nNotified waiting: " +
+    notified.map(w => `${w.agent} (${displayReservationPath(w.path, cwd)}${w.autoGrant ? ", granted" : ""})`).join(", ");
 }
 
-export function executeRename(
+export function executeRenew(
+  state: MessengerState,
+  dirs: Dirs,
+  ctx: ExtensionContext,
+  renew: string[] | true,
+  ttl?: number
+) {
+  if (!state.registered) {
+    return notRegisteredError();
+  }
+
+  const cwd = ctx.cwd ?? process.cwd();
+  const wanted = renew === true ? null : renew.map(p => store.canonicalizePath(p, cwd));
+  const targets = state.reservations.filter(r => !wanted || wanted.includes(r.pattern));
+
+  if (targets.length === 0) {
+    return result(
+      renew === true ? "No reservations to renew." : "Error: no matching reservations to renew.",
+      { mode: "renew", error: renew === true ? undefined : "not_found", renewed: [] }
+    );
+  }
+
+  const nowMs = Date.now();
+  const renewed: string[] = [];
+  const skipped: string[] = [];
+
+  for (const r of targets) {
+    const lease = ttl && ttl > 0 ? ttl : r.ttl;
+    if (!lease) {
+      skipped.push(r.pattern);
+      continue;
+    }
+    r.ttl = lease;
+    r.expiresAt = new Date(nowMs + lease * 1000).toISOString();
+    renewed.push(r.pattern);
+  }
+
+  if (renewed.length > 0) {
+    store.updateRegistration(state, dirs, ctx);
+  }
+
+  const lines: string[] = [];
+  if (renewed.length > 0) {
+    const renewedRes = state.reservations.filter(r => renewed.includes(r.pattern));
+    lines.push(`Renewed: ${renewedRes.map(r => `${formatReservationPattern(r, cwd)}${formatReservationExpiry(r)}`).join(", ")}`);
+  }
+  if (skipped.length > 0) {
+    lines.push(`No lease (pass ttl to add one): ${skipped.map(p => displayReservationPath(p, cwd)).join(", ")}`);
+  }
+
+  return result(lines.join("\n"), { mode: "renew", renewed, skipped });
+}
+
+export async function executeForceRelease(
+  state: MessengerState,
+  dirs: Dirs,
+  cwd: string,
+  name: string,
+  paths?: string[]
+) {
+  if (!state.registered) {
+    return notRegisteredError();
+  }
+
+  if (!state.isHuman) {
+    return result(
+      "Error: force_release is only available to the human participant.",
+      { mode: "force_release", error: "not_human" }
+    );
+  }
+
+  if (name === state.agentName) {
+    return result(
+      "Error: use release for your own reservations.",
+      { mode: "force_release", error: "self" }
+    );
+  }
+
+  const patterns = paths?.map(p => store.canonicalizePath(p, cwd));
+  const released = await store.forceReleaseReservations(dirs, name, state.agentName, patterns);
+
+  if (!store.isForceReleaseSuccess(released)) {
+    const text = released.error === "not_found"
+      ? `Error: agent "${name}" not found or not active.`
+      : `Error: ${name} holds no ${patterns ? "matching " : ""}reservations.`;
+    return result(text, { mode: "force_release", error: released.error, name });
+  }
+
+  const holderCwd = released.holder.cwd;
+  const canonical = released.released.map(r => store.canonicalizePath(r.pattern, holderCwd));
+  const displayed = canonical.map(p => displayReservationPath(p, cwd));
+  for (const pattern of canonical) {
+    logReservationEvent(cwd, state.agentName, "force_release", pattern, name);
+  }
+
+  const notified = await notifyWaiters(state, dirs, name);
+
+  return result(
+    `Force-released from ${name}: ${displayed.join(", ")}` + formatNotifiedWaiters(notified, cwd),
+    { mode: "force_release", name, released: released.released.map(r => r.pattern), notified: notified.map(w => ({ agent: w.agent, path: w.path })) }
+  );
+}
+
+export async function executeWaitFor(
+  state: MessengerState,
+  dirs: Dirs,
+  ctx: ExtensionContext,
+  paths: string[],
+  autoGrant: boolean = false,
+  mode: ReservationMode = "exclusive",
+  reason?: string
+) {
+  if (!state.registered) {
+    return notRegisteredError();
+  }
+
+  if (paths.length === 0) {
+    return result(
+      "Error: at least one path required.",
+      { mode: "wait_for", error: "empty_paths" }
+    );
+  }
+
+  const cwd = ctx.cwd ?? process.cwd();
+  const sessionId = ctx.sessionManager.getSessionId();
+  const queued: { path: string; position: number; holders: string[] }[] = [];
+  const free: string[] = [];
+
+  for (const path of paths) {
+    const canonical = store.canonicalizePath(path, cwd);
+    const holders = store.getConflictsWithOtherAgents(canonical, state, dirs, cwd)
+      .filter(c => reservationBlocksEdits(c.mode));
+    if (holders.length === 0) {
+      free.push(canonical);
+      continue;
+    }
+    const { position } = await store.enqueueWaiter(dirs, {
+      agent: state.agentName,
+      sessionId,
+      pid: process.pid,
+      path: canonical,
+      autoGrant,
+      mode: mode === "exclusive" ? undefined : mode,
+      reason,
+      since: new Date().toISOString(),
+    });
+    queued.push({ path: canonical, position, holders: [...new Set(holders.map(h => h.agent))] });
+  }
+
+  const lines: string[] = [];
+  for (const q of queued) {
+    lines.push(`Waiting for ${displayReservationPath(q.path, cwd)}: #${q.position} in queue (held by ${q.holders.join(", ")})`);
+  }
+  if (free.length > 0) {
+    lines.push(`Not reserved by anyone else: ${free.map(p => displayReservationPath(p, cwd)).join(", ")}`);
+  }
+  if (queued.length > 0) {
+    lines.push("", autoGrant
+      ? "You'll get a message and the reservation when it is released."
+      : "You'll get a message when it is released.");
+  }
+
+  return result(lines.join("\n"), { mode: "wait_for", queued, free, autoGrant });
+}
+
+export async function executeRename(
   state: MessengerState,
   dirs: Dirs,
   ctx: ExtensionContext,
@@ -454,6 +1118,7 @@ export function executeRename(
   state.watcherRetries = 0;
   store.startWatcher(state, dirs, deliverFn);
   updateStatusFn(ctx);
+  await store.renameChannelMember(dirs, renameResult.oldName, renameResult.newName);
 
   return result(
     `Renamed from "${renameResult.oldName}" to "${renameResult.newName}".`,
@@ -475,6 +1140,27 @@ export function executeSetSpec(
   return result(`Spec set to ${display}${warning}`, { mode: "spec", spec: display });
 }
 
+/** Spec for claim/unclaim/complete: the explicit path, your joined spec, or the crew plan's. */
+function claimSpec(state: MessengerState, specPath?: string): string | undefined {
+  if (specPath) return resolveSpecPath(specPath, process.cwd());
+  return state.spec ?? crew.loadPlan(process.cwd())?.spec;
+}
+
+function unknownCrewTask(mode: string, spec: string, taskId: string) {
+  const cwd = process.cwd();
+  if (crew.crewTaskForClaim(cwd, spec, taskId) !== null) return null;
+  const known = crew.getTasks(cwd).map(t => t.id);
+  return result(
+    `Error: ${taskId} is not a task in the crew plan. Known tasks: ${known.length > 0 ? known.join(", ") : "(none)"}.`,
+    { mode, error: "unknown_task", taskId, tasks: known }
+  );
+}
+
+function syncCrewTask(spec: string, taskId: string, patch: Partial<Omit<crew.CrewTask, "id" | "createdAt">>): void {
+  const cwd = process.cwd();
+  if (crew.crewTaskForClaim(cwd, spec, taskId)) crew.updateTask(cwd, taskId, patch);
+}
+
 export async function executeClaim(
   state: MessengerState,
   dirs: Dirs,
@@ -483,13 +1169,22 @@ export async function executeClaim(
   specPath?: string,
   reason?: string
 ) {
-  const spec = specPath ? resolveSpecPath(specPath, process.cwd()) : state.spec;
+  const spec = claimSpec(state, specPath);
   if (!spec) {
     return result(
       "Error: No spec registered. Use `spec` parameter or join with a spec first.",
       { mode: "claim", error: "no_spec" }
     );
   }
+  const unknown = unknownCrewTask("claim", spec, taskId);
+  if (unknown) return unknown;
+  const crewTask = crew.crewTaskForClaim(process.cwd(), spec, taskId);
+  if (crewTask?.status === "blocked") {
+    return result(
+      `Error: ${taskId} is blocked: ${crewTask.blockedReason ?? "no reason given"}. Unblock it first with task.unblock.`,
+      { mode: "claim", error: "task_blocked", taskId, reason: crewTask.blockedReason }
+    );
+  }
 
   const warning = specPath && !existsSync(spec)
     ? `\n\nWarning: Spec file not found at ${displaySpecPath(spec, process.cwd())}.`
@@ -507,6 +1202,7 @@ export async function executeClaim(
 
   const display = displaySpecPath(spec, process.cwd());
   if (store.isClaimSuccess(claimResult)) {
+    syncCrewTask(spec, taskId, { status: "in_progress", assignee: state.agentName, baseCommit: crew.gitHead(process.cwd()) });
     return result(`Claimed ${taskId} in ${display}${warning}`, {
       mode: "claim",
       spec: display,
@@ -541,7 +1237,7 @@ export async function executeUnclaim(
   taskId: string,
   specPath?: string
 ) {
-  const spec = specPath ? resolveSpecPath(specPath, process.cwd()) : state.spec;
+  const spec = claimSpec(state, specPath);
   if (!spec) {
     return result("Error: No spec registered.", { mode: "unclaim", error: "no_spec" });
   }
@@ -554,6 +1250,7 @@ export async function executeUnclaim(
   const display = displaySpecPath(spec, process.cwd());
 
   if (store.isUnclaimSuccess(unclaimResult)) {
+    syncCrewTask(spec, taskId, { status: "todo", assignee: undefined });
     return result(`Released claim on ${taskId}${warning}`, { mode: "unclaim", spec: display, taskId });
   }
 
@@ -575,10 +1272,12 @@ export async function executeComplete(
   notes?: string,
   specPath?: string
 ) {
-  const spec = specPath ? resolveSpecPath(specPath, process.cwd()) : state.spec;
+  const spec = claimSpec(state, specPath);
   if (!spec) {
     return result("Error: No spec registered.", { mode: "complete", error: "no_spec" });
   }
+  const unknown = unknownCrewTask("complete", spec, taskId);
+  if (unknown) return unknown;
 
   const warning = specPath && !existsSync(spec)
     ? `\n\nWarning: Spec file not found at ${displaySpecPath(spec, process.cwd())}.`
@@ -588,6 +1287,8 @@ export async function executeComplete(
   const display = displaySpecPath(spec, process.cwd());
 
   if (store.isCompleteSuccess(completeResult)) {
+    syncCrewTask(spec, taskId, { status: "done" });
+    if (crew.crewTaskForClaim(process.cwd(), spec, taskId)) crew.recordTaskDiff(process.cwd(), taskId);
     return result(`Completed ${taskId} in ${display}${warning}`, {
       mode: "complete",
       spec: display,
@@ -614,6 +1315,13 @@ export async function executeComplete(
   return result(`Error: ${taskId} is not claimed.${warning}`, { mode: "complete", error: "not_claimed", taskId });
 }
 
+function formatCompletedIds(completions: SpecCompletions): string {
+  const ids = Object.entries(completions).map(([taskId, c]) =>
+    isCompletionReopened(c) ? `${taskId} (reopened by review)` : taskId
+  );
+  return ids.length > 0 ? ids.join(", ") : "(none)";
+}
+
 export function executeSwarm(
   state: MessengerState,
   dirs: Dirs,
@@ -633,6 +1341,8 @@ export function executeSwarm(
   for (const abs of Object.keys(claims)) addAbs(abs);
   for (const abs of Object.keys(completions)) addAbs(abs);
   if (state.spec) addAbs(state.spec);
+  const plan = crew.loadPlan(cwd);
+  if (plan) addAbs(plan.spec);
   for (const agent of agents) {
     if (agent.spec) addAbs(agent.spec);
   }
@@ -663,13 +1373,16 @@ export function executeSwarm(
     const specAgentList = specAgents[display] || [];
 
     const lines = [`Swarm: ${display}`, ""];
-    const completedIds = Object.keys(specCompletions);
-    lines.push(`Completed: ${completedIds.length > 0 ? completedIds.join(", ") : "(none)"}`);
+    lines.push(`Completed: ${formatCompletedIds(specCompletions)}`);
 
     const inProgress = Object.entries(specClaims).map(([tid, c]) =>
       `${tid} (${c.agent === state.agentName ? "you" : c.agent})`
     );
     lines.push(`In progress: ${inProgress.length > 0 ? inProgress.join(", ") : "(none)"}`);
+    if (absSpec === plan?.spec) {
+      const progress = crewProgress(dirs, absSpec, cwd);
+      lines.push(...formatCrewProgress(progress));
+    }
 
     const teammates = specAgentList.filter(name => name !== state.agentName);
     if (teammates.length > 0) lines.push(`Teammates: ${teammates.join(", ")}`);
@@ -702,13 +1415,16 @@ export function executeSwarm(
     const isMySpec = display === mySpec;
     lines.push(`${display}${isMySpec ? " (your spec)" : ""}:`);
 
-    const completedIds = Object.keys(specCompletions);
-    lines.push(`  Completed: ${completedIds.length > 0 ? completedIds.join(", ") : "(none)"}`);
+    lines.push(`  Completed: ${formatCompletedIds(specCompletions)}`);
 
     const inProgress = Object.entries(specClaims).map(([tid, c]) =>
       `${tid} (${c.agent === state.agentName ? "you" : c.agent})`
     );
     lines.push(`  In progress: ${inProgress.length > 0 ? inProgress.join(", ") : "(none)"}`);
+    if (absSpec === plan?.spec) {
+      const progress = crewProgress(dirs, absSpec, cwd);
+      lines.push(...formatCrewProgress(progress, "  "));
+    }
 
     const idle = specAgentList.filter(name =>
       !Object.values(specClaims).some(c => c.agent === name)
@@ -725,6 +1441,523 @@ export function executeSwarm(
   });
 }
 
+// =============================================================================
+// Crew
+// =============================================================================
+
+interface CrewProgress {
+  ready: string[];
+  inProgress: Array<{ taskId: string; agent: string }>;
+  /** Tasks marked blocked (with a reason) or waiting on unfinished dependencies. */
+  blocked: Array<{ taskId: string; waitingOn: string[]; reason?: string }>;
+  done: number;
+  total: number;
+}
+
+/** Where each task of the crew plan stands, judged by the spec's claims and completions. */
+function crewProgress(dirs: Dirs, spec: string, cwd: string = process.cwd()): CrewProgress {
+  const tasks = crew.getTasks(cwd);
+  const completions = store.getCompletionsForSpec(dirs, spec);
+  const claims = store.getClaimsForSpec(dirs, spec);
+  const open = tasks.filter(t => !isTaskDone(completions, t.id));
+  return {
+    ready: readyTaskIds(open.filter(t => t.status !== "blocked"), completions, claims),
+    inProgress: open.filter(t => claims[t.id]).map(t => ({ taskId: t.id, agent: claims[t.id].agent })),
+    blocked: open
+      .filter(t => !claims[t.id])
+      .map(t => ({
+        taskId: t.id,
+        waitingOn: pendingDependencies(t, completions),
+        reason: t.status === "blocked" ? t.blockedReason ?? "no reason given" : undefined,
+      }))
+      .filter(b => b.reason !== undefined || b.waitingOn.length > 0),
+    done: tasks.length - open.length,
+    total: tasks.length,
+  };
+}
+
+function formatCrewProgress(progress: CrewProgress, indent: string = ""): string[] {
+  const lines = [`${indent}Ready: ${progress.ready.length > 0 ? progress.ready.join(", ") : "(none)"}`];
+  if (progress.blocked.length > 0) {
+    const describe = (b: CrewProgress["blocked"][number]) =>
+      b.reason !== undefined ? `${b.taskId} (blocked: ${b.reason})` : `${b.taskId} (waiting on ${b.waitingOn.join(", ")})`;
+    lines.push(`${indent}Blocked: ${progress.blocked.map(describe).join("; ")}`);
+  }
+  return lines;
+}
+
+export function executeReady(state: MessengerState, dirs: Dirs, cwd: string = process.cwd()) {
+  const plan = crew.loadPlan(cwd);
+  if (!plan) {
+    return result(
+      "Error: No crew plan. Create one with pi_messenger({ action: \"plan\" }).",
+      { mode: "task.ready", error: "no_plan" }
+    );
+  }
+  const progress = crewProgress(dirs, plan.spec, cwd);
+  const titles = new Map(crew.getTasks(cwd).map(t => [t.id, t.title]));
+  const lines = [`${progress.done}/${progress.total} tasks done.`, ""];
+  if (progress.ready.length > 0) {
+    lines.push("Ready:", ...progress.ready.map(id => `  ${id}: ${titles.get(id)}`));
+  } else {
+    lines.push("Ready: (none)");
+  }
+  lines.push(...formatCrewProgress(progress).slice(1));
+
+  return result(lines.join("\n"), {
+    mode: "task.ready",
+    ready: progress.ready,
+    blocked: progress.blocked,
+    inProgress: progress.inProgress,
+  });
+}
+
+export function executeTaskProgress(state: MessengerState, taskId: string, message: string, cwd: string = process.cwd()) {
+  const plan = crew.loadPlan(cwd);
+  if (!plan) {
+    return result("Error: No crew plan.", { mode: "task.progress", error: "no_plan" });
+  }
+  const unknown = unknownCrewTask("task.progress", plan.spec, taskId);
+  if (unknown) return unknown;
+  crew.appendTaskProgress(cwd, taskId, state.agentName, message);
+  return result(`Logged progress on ${taskId}.`, { mode: "task.progress", taskId });
+}
+
+export async function executeTaskBlock(
+  state: MessengerState,
+  dirs: Dirs,
+  taskId: string,
+  reason: string,
+  cwd: string = process.cwd()
+) {
+  const plan = crew.loadPlan(cwd);
+  if (!plan) {
+    return result("Error: No crew plan.", { mode: "task.block", error: "no_plan" });
+  }
+  const unknown = unknownCrewTask("task.block", plan.spec, taskId);
+  if (unknown) return unknown;
+  if (isTaskDone(store.getCompletionsForSpec(dirs, plan.spec), taskId)) {
+    return result(`Error: ${taskId} is already completed.`, { mode: "task.block", error: "already_completed", taskId });
+  }
+
+  const claim = store.getClaimsForSpec(dirs, plan.spec)[taskId];
+  if (claim && claim.agent !== state.agentName) {
+    return result(
+      `Error: ${taskId} is claimed by ${claim.agent}, not you.`,
+      { mode: "task.block", error: "not_your_claim", taskId, claimedBy: claim.agent }
+    );
+  }
+  // A blocked task can't be worked on, so the blocker's own claim goes with it
+  if (claim) await store.unclaimTask(dirs, plan.spec, taskId, state.agentName);
+
+  crew.updateTask(cwd, taskId, { status: "blocked", assignee: undefined, blockedReason: reason });
+  crew.appendTaskProgress(cwd, taskId, state.agentName, `Blocked: ${reason}`);
+  return result(
+    `Blocked ${taskId}: ${reason}${claim ? "\nYour claim was released." : ""}`,
+    { mode: "task.block", taskId, reason, released: !!claim }
+  );
+}
+
+export function executeTaskUnblock(state: MessengerState, taskId: string, cwd: string = process.cwd()) {
+  const plan = crew.loadPlan(cwd);
+  if (!plan) {
+    return result("Error: No crew plan.", { mode: "task.unblock", error: "no_plan" });
+  }
+  const unknown = unknownCrewTask("task.unblock", plan.spec, taskId);
+  if (unknown) return unknown;
+  if (crew.getTask(cwd, taskId)?.status !== "blocked") {
+    return result(`Error: ${taskId} is not blocked.`, { mode: "task.unblock", error: "not_blocked", taskId });
+  }
+
+  crew.updateTask(cwd, taskId, { status: "todo", blockedReason: undefined });
+  crew.appendTaskProgress(cwd, taskId, state.agentName, "Unblocked.");
+  return result(`Unblocked ${taskId}.`, { mode: "task.unblock", taskId });
+}
+
+export interface PlanOptions {
+  prd?: string;
+  prompt?: string;
+  model?: string;
+  /** Replace a plan that already has completed tasks (they are archived, not deleted). */
+  replan?: boolean;
+}
+
+export async function executePlan(
+  dirs: Dirs,
+  options: PlanOptions,
+  signal?: AbortSignal,
+  cwd: string = process.cwd()
+) {
+  const existing = crew.getTasks(cwd);
+  const active = existing.filter(t => t.status === "in_progress");
+  if (active.length > 0) {
+    return result(
+      `Error: Crew tasks are in progress (${active.map(t => t.id).join(", ")}). Finish or unclaim them before replanning.`,
+      { mode: "plan", error: "plan_in_progress", tasks: active.map(t => t.id) }
+    );
+  }
+
+  const previous = crew.loadPlan(cwd);
+  const previousCompletions = previous ? store.getCompletionsForSpec(dirs, previous.spec) : {};
+  const completed = Object.keys(previousCompletions);
+  if (completed.length > 0 && !options.replan) {
+    return result(
+      `Error: The current plan has completed tasks (${completed.join(", ")}). Pass replan: true to replace it; the old plan, its reviews and progress logs are archived under .pi/messenger/crew/archive/.`,
+      { mode: "plan", error: "plan_has_completions", tasks: completed }
+    );
+  }
+
+  let spec: string;
+  let content: string;
+  let prdPath: string | undefined;
+  const prompt = options.prompt?.trim();
+  if (prompt && !options.prd) {
+    spec = join(crew.crewDir(cwd), "prompt.md");
+    content = prompt;
+  } else {
+    const found = options.prd ? resolveSpecPath(options.prd, cwd) : crew.discoverPrd(cwd);
+    if (!found || !existsSync(found)) {
+      return result(
+        options.prd
+          ? `Error: PRD not found at ${options.prd}.`
+          : "Error: No PRD found. Add PRD.md, SPEC.md or DESIGN.md to the project root or docs/, or pass `prd` or `prompt`.",
+        { mode: "plan", error: "no_prd" }
+      );
+    }
+    spec = found;
+    prdPath = displaySpecPath(found, cwd);
+    content = readFileSync(found, "utf-8");
+    if (prompt) content += `\n\nAdditional instructions:\n${prompt}`;
+  }
+
+  const run = await crew.runPiAgent({
+    cwd,
+    prompt: crew.buildPlannerPrompt({ path: prdPath, content }),
+    model: options.model,
+    signal,
+  });
+  crew.appendPlanningProgress(cwd, `Planner run${prdPath ? ` for ${prdPath}` : ""}`, run.output || run.stderr);
+
+  if (run.aborted) {
+    return result("Planning aborted.", { mode: "plan", error: "aborted" });
+  }
+  if (run.exitCode !== 0) {
+    const detail = run.stderr.trim().split("\n").slice(-5).join("\n");
+    return result(
+      `Error: Planner failed (exit ${run.exitCode ?? "spawn error"}).${detail ? `\n\n${detail}` : ""}`,
+      { mode: "plan", error: "planner_failed", exitCode: run.exitCode }
+    );
+  }
+
+  const parsed = crew.parsePlannerOutput(run.output);
+  if ("error" in parsed) {
+    return result(
+      `Error: Could not read the planner's task list: ${parsed.error}. Output saved to .pi/messenger/crew/planning-progress.md.`,
+      { mode: "plan", error: "invalid_plan", reason: parsed.error }
+    );
+  }
+
+  const issues = crew.validatePlan(parsed.tasks);
+  if (issues.length > 0) {
+    return result(
+      `Error: The planner's task graph is invalid:\n${issues.map(i => `- ${i.message}`).join("\n")}\n\nOutput saved to .pi/messenger/crew/planning-progress.md.`,
+      { mode: "plan", error: "invalid_plan", issues }
+    );
+  }
+
+  const archived = crew.archivePlan(cwd, previousCompletions);
+  if (!prdPath) {
+    // Written only now: prompt.md is the live plan's spec and claim key
+    mkdirSync(crew.crewDir(cwd), { recursive: true });
+    writeFileSync(spec, content + "\n");
+  }
+  if (previous && previous.spec !== spec) await store.clearSpecProgress(dirs, previous.spec);
+  await store.clearSpecProgress(dirs, spec);
+  const { tasks } = crew.savePlan(cwd, spec, parsed.tasks, prompt);
+  const display = displaySpecPath(spec, cwd);
+  const lines = [`Planned ${tasks.length} task${tasks.length === 1 ? "" : "s"} from ${display}:`, ""];
+  for (const task of tasks) {
+    const deps = task.dependsOn.length > 0 ? ` (after ${task.dependsOn.join(", ")})` : "";
+    lines.push(`${task.id}: ${task.title}${deps}`);
+  }
+  if (archived) lines.push("", `Previous plan archived to ${relative(cwd, archived)}.`);
+  lines.push("", "Claim a task with pi_messenger({ action: \"claim\", taskId: \"task-1\" }).");
+
+  return result(lines.join("\n"), {
+    mode: "plan",
+    spec: display,
+    tasks: tasks.map(t => ({ id: t.id, title: t.title, dependsOn: t.dependsOn })),
+  });
+}
+
+/** How long a spawned worker gets to join the mesh before its task is handed back. */
+const WORKER_JOIN_TIMEOUT_MS = 60_000;
+
+interface WorkerOutcome {
+  taskId: string;
+  worker: string;
+  done: boolean;
+  reason?: string;
+}
+
+async function runCrewWorker(
+  dirs: Dirs,
+  cwd: string,
+  spec: string,
+  task: crew.CrewTask,
+  crewConfig: CrewConfig,
+  model: string | undefined,
+  signal?: AbortSignal
+): Promise<WorkerOutcome> {
+  const name = crew.workerName(task.id);
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort);
+  if (signal?.aborted) controller.abort();
+
+  const startedAt = Date.now();
+  const run = crew.runPiAgent({
+    cwd,
+    prompt: crew.buildWorkerPrompt(task, crew.readTaskSpec(cwd, task.id), name, crew.readTaskProgress(cwd, task.id)),
+    model,
+    env: { ...crewConfig.work.env, PI_AGENT_NAME: name, [crew.CREW_TASK_ENV]: task.id },
+    signal: controller.signal,
+    graceMs: crewConfig.work.shutdownGracePeriodMs,
+  });
+
+  try {
+    const reg = await Promise.race([
+      store.waitForRegistration(dirs, name, startedAt, WORKER_JOIN_TIMEOUT_MS, controller.signal),
+      run.then(() => null),
+    ]);
+    if (!reg) {
+      controller.abort();
+      const exited = await run;
+      const detail = exited.stderr.trim().split("\n").pop();
+      return { taskId: task.id, worker: name, done: false, reason: detail || "worker did not join the mesh" };
+    }
+
+    const claimed = await store.claimTask(dirs, spec, task.id, name, reg.sessionId, reg.pid, "crew work");
+    if (!store.isClaimSuccess(claimed)) {
+      controller.abort();
+      await run;
+      const reason = store.isClaimAlreadyClaimed(claimed)
+        ? `already claimed by ${claimed.conflict.agent}`
+        : store.isClaimAlreadyHaveClaim(claimed)
+          ? `${name} already holds a claim on ${claimed.existing.taskId} in ${displaySpecPath(claimed.existing.spec, cwd)}`
+          : "claim failed";
+      return { taskId: task.id, worker: name, done: false, reason };
+    }
+    crew.updateTask(cwd, task.id, { status: "in_progress", assignee: name, baseCommit: crew.gitHead(cwd) });
+
+    const exited = await run;
+    const completion = store.getCompletionsForSpec(dirs, spec)[task.id];
+    if (completion && !isCompletionReopened(completion)) {
+      crew.updateTask(cwd, task.id, { status: "done" });
+      return { taskId: task.id, worker: name, done: true };
+    }
+
+    const current = crew.getTask(cwd, task.id);
+    if (current?.status === "blocked") {
+      return { taskId: task.id, worker: name, done: false, reason: `blocked: ${current.blockedReason ?? "no reason given"}` };
+    }
+    // The claim goes stale with the worker's process, so only the task record needs resetting
+    crew.updateTask(cwd, task.id, { status: "todo", assignee: undefined });
+    const reason = exited.aborted
+      ? "stopped"
+      : `exited (code ${exited.exitCode ?? "none"}) without completing`;
+    return { taskId: task.id, worker: name, done: false, reason };
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+export interface WorkOptions {
+  autonomous?: boolean;
+  concurrency?: number;
+  model?: string;
+}
+
+export async function executeWork(
+  state: MessengerState,
+  dirs: Dirs,
+  crewConfig: CrewConfig,
+  options: WorkOptions,
+  signal?: AbortSignal,
+  cwd: string = process.cwd()
+) {
+  const plan = crew.loadPlan(cwd);
+  if (!plan) {
+    return result(
+      "Error: No crew plan. Create one with pi_messenger({ action: \"plan\" }).",
+      { mode: "work", error: "no_plan" }
+    );
+  }
+  const readyNow = () => crew.readyTasks(
+    cwd,
+    store.getCompletionsForSpec(dirs, plan.spec),
+    store.getClaimsForSpec(dirs, plan.spec)
+  );
+  if (readyNow().length === 0) {
+    const progress = crewProgress(dirs, plan.spec, cwd);
+    if (progress.done === progress.total) {
+      return result("All crew tasks are done.", { mode: "work", waves: 0 });
+    }
+    return result(
+      [
+        "Error: No tasks are ready.",
+        `In progress: ${progress.inProgress.length > 0 ? progress.inProgress.map(p => `${p.taskId} (${p.agent === state.agentName ? "you" : p.agent})`).join(", ") : "(none)"}`,
+        ...formatCrewProgress(progress).slice(1),
+      ].join("\n"),
+      { mode: "work", error: "no_ready_tasks", waves: 0 }
+    );
+  }
+
+  const requested = typeof options.concurrency === "number" && options.concurrency >= 1
+    ? Math.floor(options.concurrency)
+    : crewConfig.concurrency.workers;
+  const workers = Math.min(requested, crewConfig.concurrency.max);
+  const maxWaves = options.autonomous ? crewConfig.work.maxWaves : 1;
+  const model = options.model ?? crewConfig.models.worker;
+
+  const lines: string[] = [];
+  const waves: WorkerOutcome[][] = [];
+  let stopReason = "";
+  while (waves.length < maxWaves) {
+    if (signal?.aborted) {
+      stopReason = "aborted";
+      break;
+    }
+    const batch = readyNow().slice(0, workers);
+    if (batch.length === 0) break;
+
+    const outcomes = await Promise.all(
+      batch.map(task => runCrewWorker(dirs, cwd, plan.spec, task, crewConfig, model, signal))
+    );
+    waves.push(outcomes);
+    lines.push(`Wave ${waves.length}:`);
+    for (const o of outcomes) {
+      lines.push(`  ${o.taskId} (${o.worker}): ${o.done ? "done" : o.reason}`);
+    }
+    if (!outcomes.some(o => o.done)) {
+      stopReason = signal?.aborted ? "aborted" : "no task completed in the last wave";
+      break;
+    }
+  }
+  if (!stopReason && options.autonomous && waves.length >= maxWaves && readyNow().length > 0) {
+    stopReason = `reached work.maxWaves (${maxWaves})`;
+  }
+
+  const tasks = crew.getTasks(cwd);
+  const done = tasks.filter(t => t.status === "done").length;
+  const remaining = tasks.filter(t => t.status !== "done").map(t => t.id);
+  lines.push("", `${done}/${tasks.length} tasks done.${remaining.length > 0 ? ` Remaining: ${remaining.join(", ")}.` : ""}`);
+  if (stopReason) lines.push(`Stopped: ${stopReason}.`);
+
+  return result(lines.join("\n"), {
+    mode: "work",
+    waves: waves.length,
+    outcomes: waves,
+    done,
+    total: tasks.length,
+    remaining,
+    ...(stopReason ? { stopped: stopReason } : {}),
+  });
+}
+
+const VERDICT_NOTES: Record<ReviewRecord["verdict"], string> = {
+  SHIP: "Ready to ship.",
+  NEEDS_WORK: "Reopened for another pass; the feedback is in the task's progress log.",
+  MAJOR_RETHINK: "Blocked until the approach is rethought: task.unblock it to redo the task, or replan.",
+};
+
+export async function executeReview(
+  state: MessengerState,
+  dirs: Dirs,
+  crewConfig: CrewConfig,
+  taskId: string,
+  signal?: AbortSignal,
+  cwd: string = process.cwd()
+) {
+  const plan = crew.loadPlan(cwd);
+  if (!plan) {
+    return result(
+      "Error: No crew plan. Create one with pi_messenger({ action: \"plan\" }).",
+      { mode: "review", error: "no_plan" }
+    );
+  }
+  const unknown = unknownCrewTask("review", plan.spec, taskId);
+  if (unknown) return unknown;
+  const task = crew.getTask(cwd, taskId)!;
+  const completion = store.getCompletionsForSpec(dirs, plan.spec)[taskId];
+  if (!completion || isCompletionReopened(completion)) {
+    return result(
+      `Error: ${taskId} is not completed yet. Only completed tasks can be reviewed.`,
+      { mode: "review", error: "not_completed", taskId }
+    );
+  }
+
+  const diff = crew.readTaskDiff(cwd, taskId) ?? (task.baseCommit ? crew.taskDiff(cwd, task.baseCommit) : "");
+  const run = await crew.runPiAgent({
+    cwd,
+    prompt: crew.buildReviewerPrompt(task, crew.readTaskSpec(cwd, taskId), completion.notes, diff),
+    model: crewConfig.models.reviewer,
+    signal,
+  });
+  if (run.aborted) {
+    return result("Review aborted.", { mode: "review", error: "aborted", taskId });
+  }
+  if (run.exitCode !== 0) {
+    const detail = run.stderr.trim().split("\n").slice(-5).join("\n");
+    return result(
+      `Error: Reviewer failed (exit ${run.exitCode ?? "spawn error"}).${detail ? `\n\n${detail}` : ""}`,
+      { mode: "review", error: "reviewer_failed", taskId, exitCode: run.exitCode }
+    );
+  }
+  const parsed = crew.parseReviewOutput(run.output);
+  if (!parsed) {
+    return result(
+      "Error: The reviewer did not give a verdict (expected a final `VERDICT: SHIP|NEEDS_WORK|MAJOR_RETHINK` line).",
+      { mode: "review", error: "invalid_review", taskId }
+    );
+  }
+
+  const review: ReviewRecord = {
+    verdict: parsed.verdict,
+    reviewedBy: state.agentName,
+    reviewedAt: new Date().toISOString(),
+    feedback: parsed.feedback,
+  };
+  if (!await store.recordReview(dirs, plan.spec, taskId, review)) {
+    return result(
+      `Error: ${taskId} is no longer completed; the review was not recorded.`,
+      { mode: "review", error: "not_completed", taskId }
+    );
+  }
+  if (review.verdict !== "SHIP") {
+    crew.appendTaskProgress(cwd, taskId, state.agentName, `Review: ${review.verdict}\n\n${review.feedback || "(no feedback)"}`);
+  }
+  if (review.verdict === "NEEDS_WORK") {
+    crew.updateTask(cwd, taskId, { status: "todo", assignee: undefined });
+  } else if (review.verdict === "MAJOR_RETHINK") {
+    // Dependents must not build on it, and rerunning the same approach won't help
+    const summary = review.feedback.split("\n").find(l => l.trim())?.trim();
+    crew.updateTask(cwd, taskId, {
+      status: "blocked",
+      assignee: undefined,
+      blockedReason: `review: MAJOR_RETHINK${summary ? ` — ${summary}` : ""}`,
+    });
+  }
+
+  const feedback = review.feedback ? `\n\n${review.feedback}` : "";
+  return result(`${taskId}: ${review.verdict}. ${VERDICT_NOTES[review.verdict]}${feedback}`, {
+    mode: "review",
+    taskId,
+    verdict: review.verdict,
+    reopened: review.verdict !== "SHIP",
+  });
+}
+
 export function executeSetStatus(
   state: MessengerState,
   dirs: Dirs,
@@ -776,12 +2009,68 @@ export function executeFeed(
   return result(lines.join("\n"), { mode: "feed", events });
 }
 
+export function executeReservations(
+  cwd: string,
+  paths?: string[],
+) {
+  const events = readReservationEvents(cwd);
+  const report = buildReservationReport(events);
+
+  const filters = paths?.map(p => store.canonicalizePath(p, cwd));
+  const matchesFilter = (pattern: string) => !filters || filters.some(f => globsOverlap(pattern, f));
+  const holds = report.holds.filter(h => matchesFilter(h.pattern));
+  const hottest = report.paths.filter(p => matchesFilter(p.pattern));
+
+  if (holds.length === 0) {
+    return result(
+      "# Reservation History\n\nNo reservations in the reservation log.",
+      { mode: "reservations", holds: [], paths: [], unattributedBlocks: report.unattributedBlocks }
+    );
+  }
+
+  const clock = (ts: string) => new Date(ts).toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit", hour12: false });
+
+  const lines: string[] = [`# Reservation History (${holds.length} hold${holds.length === 1 ? "" : "s"} in the last ${events.length} reservation events)`, ""];
+  lines.push("## Hottest Paths");
+  for (const p of hottest.slice(0, 10)) {
+    const blocked = p.blocked > 0 ? ` · ${p.blocked} blocked edit${p.blocked === 1 ? "" : "s"}` : "";
+    lines.push(`- ${displayReservationPath(p.pattern, cwd)} — ${p.holds} hold${p.holds === 1 ? "" : "s"} by ${p.holders.join(", ")} · held ${formatDuration(p.heldMs)}${blocked}`);
+  }
+
+  lines.push("", "## Holds");
+  for (const h of holds.slice(-20)) {
+    const span = h.until
+      ? `${clock(h.since)}–${clock(h.until)} (${formatDuration(h.durationMs)})`
+      : `since ${clock(h.since)} (${formatDuration(h.durationMs)}, active)`;
+    const ended = h.endedBy ? ` · ${h.endedBy}` : "";
+    const blocked = h.blocked > 0 ? ` · ${h.blocked} blocked` : "";
+    lines.push(`- ${displayReservationPath(h.pattern, cwd)} · ${h.agent} · ${span}${blocked}${ended}${h.reason ? ` — ${h.reason}` : ""}`);
+  }
+
+  if (report.unattributedBlocks > 0) {
+    lines.push("", `${report.unattributedBlocks} blocked edit(s) could not be matched to a reservation in the log.`);
+  }
+
+  return result(lines.join("\n"), {
+    mode: "reservations",
+    holds,
+    paths: hottest,
+    unattributedBlocks: report.unattributedBlocks
+  });
+}
+
+interface WhoisConfig {
+  stuckThreshold?: number;
+  maxMessagesPerMinute?: number;
+  maxBroadcastsPerHour?: number;
+}
+
 export function executeWhois(
   state: MessengerState,
   dirs: Dirs,
   cwd: string,
   name: string,
-  config?: { stuckThreshold?: number }
+  config?: WhoisConfig
 ) {
   if (!state.registered) {
     return notRegisteredError();
@@ -793,7 +2082,7 @@ export function executeWhois(
   const agent = agents.find(a => a.name === name);
   if (!agent) {
     if (name === state.agentName) {
-      return executeWhoisSelf(state, dirs, cwd, thresholdMs);
+      return executeWhoisSelf(state, dirs, cwd, thresholdMs, config);
     }
     return result(
       `Agent "${name}" not found or not active.`,
@@ -801,16 +2090,17 @@ export function executeWhois(
     );
   }
 
-  return formatWhoisOutput(agent, false, dirs, cwd, thresholdMs);
+  return formatWhoisOutput(agent, false, dirs, cwd, thresholdMs, config);
 }
 
 function executeWhoisSelf(
   state: MessengerState,
   dirs: Dirs,
   cwd: string,
-  thresholdMs: number
+  thresholdMs: number,
+  config?: WhoisConfig
 ) {
-  return formatWhoisOutput(buildSelfRegistration(state), true, dirs, cwd, thresholdMs);
+  return formatWhoisOutput(buildSelfRegistration(state), true, dirs, cwd, thresholdMs, config);
 }
 
 function formatWhoisOutput(
@@ -818,7 +2108,8 @@ function formatWhoisOutput(
   isSelf: boolean,
   dirs: Dirs,
   cwd: string,
-  thresholdMs: number
+  thresholdMs: number,
+  config?: WhoisConfig
 ) {
   const allClaims = store.getClaims(dirs);
   const hasTask = agentHasTask(agent.name, allClaims);
@@ -849,10 +2140,33 @@ function formatWhoisOutput(
     lines.push(`Status: ${agent.statusMessage}`);
   }
 
+  const outbound = outboundCounts(agent.outbound);
+  const ofLimit = (count: number, limit?: number) => (limit ? `${count}/${limit}` : `${count}`);
+  lines.push(`Outbound: ${ofLimit(outbound.messagesLastMinute, config?.maxMessagesPerMinute)} messages this minute - ${ofLimit(outbound.broadcastsLastHour, config?.maxBroadcastsPerHour)} broadcasts this hour`);
+
   if (agent.reservations && agent.reservations.length > 0) {
     lines.push("", "## Reservations");
     for (const r of agent.reservations) {
-      lines.push(`- ${r.pattern}${r.reason ? ` (${r.reason})` : ""}`);
+      lines.push(`- ${formatReservationPattern(r, cwd)}${r.reason ? ` (${r.reason})` : ""}${formatReservationExpiry(r)}`);
+    }
+  }
+
+  const waitlist = store.getWaitlist(dirs);
+  const waiting = waitlist.filter(w => w.agent === agent.name);
+  if (waiting.length > 0) {
+    lines.push("", "## Waiting For");
+    for (const w of waiting) {
+      const queueLength = waitlist.filter(o => o.path === w.path).length;
+      lines.push(`- ${displayReservationPath(w.path, cwd)} (#${store.getQueuePosition(waitlist, agent.name, w.path)} of ${queueLength})`);
+    }
+  }
+
+  const held = (agent.reservations ?? []).map(r => store.canonicalizeReservation(r, agent.cwd));
+  const waitingOnAgent = waitlist.filter(w => held.some(r => pathMatchesReservation(w.path, r.pattern, r.exclude)));
+  if (waitingOnAgent.length > 0) {
+    lines.push("", "## Queue");
+    for (const w of waitingOnAgent) {
+      lines.push(`- ${w.agent} waiting for ${displayReservationPath(w.path, cwd)} (#${store.getQueuePosition(waitlist, w.agent, w.path)})`);
     }
   }
 
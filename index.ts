@@ -28,6 +28,13 @@ import {
   type MessengerState,
   type Dirs,
   type AgentMailMessage,
+  type ReservationConflict,
+  type ReservationMode,
+  type FileReservation,
+  type MessagePriority,
+  type MessageAttachment,
+  RESERVATION_MODES,
+  MESSAGE_PRIORITIES,
   MAX_CHAT_HISTORY,
   formatRelativeTime,
   stripAnsiCodes,
@@ -35,13 +42,32 @@ import {
   generateAutoStatus,
   computeStatus,
   agentHasTask,
+  autoReserveReason,
+  effectivePriority,
+  detectEchoLoop,
+  type ConversationTurn,
+  type LoopReason,
+  normalizeAttachments,
+  formatAttachmentsForAgent,
+  summarizeAttachment,
+  ATTACHMENT_TYPES,
+  pathMatchesReservation,
+  displayReservationPath,
+  formatReservationPattern,
+  isGlobPattern,
+  isReservationExpired,
+  reservationBlocksEdits,
+  type OutboundBudget,
 } from "./lib.js";
 import * as store from "./store.js";
 import * as handlers from "./handlers.js";
 import { MessengerOverlay, type OverlayCallbacks } from "./overlay.js";
 import { MessengerConfigOverlay } from "./config-overlay.js";
 import { loadConfig, matchesAutoRegisterPath, type MessengerConfig } from "./config.js";
-import { logFeedEvent, pruneFeed } from "./feed.js";
+import { logFeedEvent, logReservationEvent, pruneFeed } from "./feed.js";
+import { archiveMessage, pruneArchive } from "./archive.js";
+import { extractBashWriteTargets } from "./bash-targets.js";
+import { CREW_TASK_ENV } from "./crew.js";
 
 let overlayTui: TUI | null = null;
 let overlayHandle: OverlayHandle | null = null;
@@ -52,6 +78,11 @@ export default function piMessengerExtension(pi: ExtensionAPI) {
   // ===========================================================================
 
   const config: MessengerConfig = loadConfig(process.cwd());
+  const outboundBudget: OutboundBudget = {
+    messagesPerMinute: config.maxMessagesPerMinute,
+    broadcastsPerHour: config.maxBroadcastsPerHour,
+    maxMessageBytes: config.maxMessageBytes,
+  };
 
   const state: MessengerState = {
     agentName: process.env.PI_AGENT_NAME || "",
@@ -62,6 +93,8 @@ export default function piMessengerExtension(pi: ExtensionAPI) {
     watcherDebounceTimer: null,
     reservations: [],
     chatHistory: new Map(),
+    sentMessages: new Map(),
+    outbound: { messages: [], broadcasts: [] },
     unreadCounts: new Map(),
     broadcastHistory: [],
     seenSenders: new Map(),
@@ -91,30 +124,40 @@ export default function piMessengerExtension(pi: ExtensionAPI) {
   // Message Delivery
   // ===========================================================================
 
-  // Loop detection: track recent message timestamps per peer to detect rapid back-and-forth
-  const LOOP_WINDOW_MS = 60_000;  // Time window to track exchanges
-  const LOOP_MAX_EXCHANGES = 3;   // Max messages from same peer within window before suppressing turn
-  const recentExchanges = new Map<string, number[]>(); // peer name → timestamps of received messages
+  // Echo-loop detection: recent messages from each peer, read together with what
+  // we sent them (state.sentMessages) so the analyzer sees both directions
+  const recentIncoming = new Map<string, ConversationTurn[]>();
 
-  /**
-   * Detect if we're in a rapid echo loop with a peer.
-   * Returns true if we've received >= LOOP_MAX_EXCHANGES messages from
-   * the same agent within LOOP_WINDOW_MS, indicating a back-and-forth loop.
-   */
-  function isEchoLoop(from: string): boolean {
+  const LOOP_REASONS: Record<LoopReason, string> = {
+    acknowledgment: "acknowledging an acknowledgment",
+    repetition: "repeats an earlier message",
+    ping_pong: "too many back-and-forth exchanges",
+  };
+
+  function detectLoop(msg: AgentMailMessage): LoopReason | null {
     const now = Date.now();
-    let timestamps = recentExchanges.get(from);
-    if (!timestamps) {
-      timestamps = [];
-      recentExchanges.set(from, timestamps);
-    }
+    const windowMs = config.loopWindow * 1000;
+    const incoming = (recentIncoming.get(msg.from) ?? []).filter(t => now - t.at <= windowMs);
+    incoming.push({ direction: "in", text: msg.text, at: now });
+    recentIncoming.set(msg.from, incoming);
+
+    const outgoing: ConversationTurn[] = [...state.sentMessages.values()]
+      .filter(m => m.to === msg.from)
+      .map(m => ({ direction: "out", text: m.text, at: new Date(m.timestamp).getTime() }));
+    return detectEchoLoop([...outgoing, ...incoming], {
+      windowMs,
+      maxRoundTrips: config.loopMaxRoundTrips,
+      similarity: config.loopSimilarity,
+    }, now);
+  }
 
-    // Prune old entries outside the window
-    timestamps = timestamps.filter(t => now - t < LOOP_WINDOW_MS);
-    timestamps.push(now);
-    recentExchanges.set(from, timestamps);
+  // Delivered messages whose read receipt goes out once a turn has ended with them in context
+  const awaitingRead: AgentMailMessage[] = [];
 
-    return timestamps.length >= LOOP_MAX_EXCHANGES;
+  function sendReadReceipts(): void {
+    for (const msg of awaitingRead.splice(0)) {
+      store.sendReceipt(state, dirs, msg, "read");
+    }
   }
 
   function deliverMessage(msg: AgentMailMessage): void {
@@ -126,6 +169,8 @@ export default function piMessengerExtension(pi: ExtensionAPI) {
     }
     history.push(msg);
     if (history.length > MAX_CHAT_HISTORY) history.shift();
+    archiveMessage(latestCtx?.cwd ?? process.cwd(), msg);
+    awaitingRead.push(msg);
 
     // Increment unread count
     const current = state.unreadCounts.get(msg.from) ?? 0;
@@ -134,8 +179,8 @@ export default function piMessengerExtension(pi: ExtensionAPI) {
     // Trigger overlay re-render if open
     overlayTui?.requestRender();
 
-    // Loop detection: suppress triggerTurn if rapid back-and-forth detected
-    const loopDetected = isEchoLoop(msg.from);
+    // Loop detection: suppress triggerTurn for echo loops; a question always gets its turn
+    const loopReason = msg.question ? null : detectLoop(msg);
 
     // Build message content with optional context
     // Detect if this is a new agent identity (first contact OR same name but different session)
@@ -160,33 +205,87 @@ export default function piMessengerExtension(pi: ExtensionAPI) {
       content += `*${msg.from} is in ${locationPart} (${sender.model})*\n\n`;
     }
 
-    // Add reply hint
-    const replyHint = config.replyHint
-      ? ` — reply: pi_messenger({ action: "send", to: "${msg.from}", message: "..." })`
+    // Add reply hint; a question always gets one since the asker is blocked until it is answered
+    const replyHint = config.replyHint || msg.question
+      ? ` — reply: pi_messenger({ action: "send", to: "${msg.channel ? `channel:${msg.channel}` : msg.from}", message: "...", replyTo: "${msg.id}" })`
       : "";
 
-    content += `**Message from ${msg.from}**${replyHint}\n\n${msg.text}`;
+    const priority = effectivePriority(msg.priority, msg.from, config.priorityCaps);
+    const heading = msg.question
+      ? "Question (waiting for your answer)"
+      : priority === "urgent" ? "Urgent message" : priority === "fyi" ? "FYI" : "Message";
+    const where = msg.channel ? ` in #${msg.channel}` : "";
+    content += `**${heading} from ${msg.from}${where}**${replyHint}\n\n${msg.text}`;
+
+    if (msg.attachments && msg.attachments.length > 0) {
+      content += `\n\n${formatAttachmentsForAgent(msg.attachments)}`;
+    }
+
+    if (msg.reservationGrant) {
+      content += `\n\n${applyReservationGrant(msg.reservationGrant)}`;
+    }
+
+    if (msg.reservationRevoked) {
+      // The registry was already rewritten by force_release; keep our state in line with it
+      const revoked = msg.reservationRevoked;
+      state.reservations = state.reservations.filter(r => !revoked.includes(r.pattern));
+      if (latestCtx) store.updateRegistration(state, dirs, latestCtx);
+    }
+
+    if (msg.offlineUntil) {
+      content = `*(left while you were offline, ${formatRelativeTime(msg.timestamp)})*\n\n${content}`;
+    }
 
     if (msg.replyTo) {
-      content = `*(reply to ${msg.replyTo.substring(0, 8)})*\n\n${content}`;
+      const threadId = (msg.threadId ?? msg.replyTo).substring(0, 8);
+      content = `*(reply to ${msg.replyTo.substring(0, 8)} in thread ${threadId} — full conversation: pi_messenger({ action: "thread", threadId: "${threadId}" }))*\n\n${content}`;
     }
 
-    if (loopDetected) {
+    if (loopReason) {
       // Loop detected: deliver message for visibility but do NOT trigger a new turn.
       // This breaks the echo loop — the agent sees the message but isn't forced to respond.
-      content += `\n\n*(loop suppressed — too many rapid exchanges with ${msg.from}, no reply needed)*`;
+      content += `\n\n*(loop suppressed — ${LOOP_REASONS[loopReason]} with ${msg.from}, no reply needed)*`;
+      logFeedEvent(latestCtx?.cwd ?? process.cwd(), state.agentName, "loop", msg.from, LOOP_REASONS[loopReason]);
+      pi.sendMessage(
+        { customType: "agent_message", content, display: true, details: msg },
+        { triggerTurn: false }
+      );
+    } else if (priority === "fyi") {
       pi.sendMessage(
         { customType: "agent_message", content, display: true, details: msg },
         { triggerTurn: false }
       );
     } else {
+      // Urgent steers into the running turn; normal waits as a follow-up until it ends
       pi.sendMessage(
         { customType: "agent_message", content, display: true, details: msg },
-        { triggerTurn: true, deliverAs: "steer" }
+        { triggerTurn: true, deliverAs: priority === "urgent" ? "steer" : "followUp" }
       );
     }
   }
 
+  /**
+   * Take over a reservation handed to us by the wait queue, unless another
+   * agent grabbed the path between the release and delivery.
+   */
+  function applyReservationGrant(grant: FileReservation): string {
+    const ctx = latestCtx;
+    const cwd = ctx?.cwd ?? process.cwd();
+    const display = displayReservationPath(grant.pattern, cwd);
+    if (!ctx) return `Could not reserve ${display} automatically; reserve it before editing.`;
+
+    const holder = store.getConflictsWithOtherAgents(grant.pattern, state, dirs, cwd)
+      .find(c => reservationBlocksEdits(c.mode));
+    if (holder) return `Could not reserve ${display}: it is now held by ${holder.agent}.`;
+
+    const reservation = withDefaultLease({ ...grant, since: new Date().toISOString() });
+    state.reservations = state.reservations.filter(r => r.pattern !== reservation.pattern);
+    state.reservations.push(reservation);
+    store.updateRegistration(state, dirs, ctx);
+    logReservationEvent(cwd, state.agentName, "reserve", reservation.pattern, reservation.reason);
+    return `Reserved for you: ${formatReservationPattern(reservation, cwd)}`;
+  }
+
   // ===========================================================================
   // Stuck Detection
   // ===========================================================================
@@ -232,6 +331,91 @@ export default function piMessengerExtension(pi: ExtensionAPI) {
     }
   }
 
+  // ===========================================================================
+  // Reservation Expiry
+  // ===========================================================================
+
+  /** Apply the configured `reservationTtl` to a reservation we take ourselves. */
+  function withDefaultLease(reservation: FileReservation): FileReservation {
+    if (config.reservationTtl <= 0) return reservation;
+    const sinceMs = new Date(reservation.since).getTime();
+    return {
+      ...reservation,
+      ttl: config.reservationTtl,
+      expiresAt: new Date(sinceMs + config.reservationTtl * 1000).toISOString(),
+    };
+  }
+
+  function expireReservations(ctx: ExtensionContext): void {
+    if (!state.registered || state.reservations.length === 0) return;
+
+    const expired = state.reservations.filter(r => isReservationExpired(r));
+    if (expired.length === 0) return;
+
+    state.reservations = state.reservations.filter(r => !isReservationExpired(r));
+    store.updateRegistration(state, dirs, ctx);
+
+    const cwd = ctx.cwd ?? process.cwd();
+    for (const r of expired) {
+      logReservationEvent(cwd, state.agentName, "release", r.pattern, "expired");
+    }
+    if (ctx.hasUI) {
+      const names = expired.map(r => displayReservationPath(r.pattern, cwd)).join(", ");
+      ctx.ui.notify(`Reservation expired: ${names}`, "info");
+    }
+    store.processWaitQueue(dirs, state.agentName).catch(() => {});
+  }
+
+  // ===========================================================================
+  // Auto-Reserve
+  // ===========================================================================
+
+  // Auto-reservation pattern → time of the last edit under it, for idle release
+  const autoReserveLastEdit = new Map<string, number>();
+
+  /**
+   * With `autoReserve` on, the first edit of a file we don't hold reserves it,
+   * so peers see what we're touching even when we forgot to call `reserve`.
+   * Later edits under an auto-reservation keep it from going idle.
+   */
+  function autoReserveOnEdit(filePath: string, cwd: string, ctx: ExtensionContext): void {
+    if (!config.autoReserve || !state.registered) return;
+
+    const canonical = store.canonicalizePath(filePath, cwd);
+    const own = state.reservations.find(r => pathMatchesReservation(canonical, r.pattern, r.exclude));
+    if (own) {
+      if (own.auto) autoReserveLastEdit.set(own.pattern, Date.now());
+      return;
+    }
+
+    const reason = autoReserveReason(state.agentName, store.getClaims(dirs), state.statusMessage);
+    const reservation = withDefaultLease({ pattern: canonical, reason, since: new Date().toISOString(), auto: true });
+    state.reservations.push(reservation);
+    autoReserveLastEdit.set(canonical, Date.now());
+    store.updateRegistration(state, dirs, ctx);
+    logReservationEvent(cwd, state.agentName, "reserve", canonical, reason);
+  }
+
+  function releaseIdleAutoReservations(ctx: ExtensionContext): void {
+    if (!state.registered || config.autoReserveIdle <= 0) return;
+
+    const cutoff = Date.now() - config.autoReserveIdle * 1000;
+    const idle = state.reservations.filter(r =>
+      r.auto && (autoReserveLastEdit.get(r.pattern) ?? new Date(r.since).getTime()) < cutoff
+    );
+    if (idle.length === 0) return;
+
+    state.reservations = state.reservations.filter(r => !idle.includes(r));
+    for (const r of idle) autoReserveLastEdit.delete(r.pattern);
+    store.updateRegistration(state, dirs, ctx);
+
+    const cwd = ctx.cwd ?? process.cwd();
+    for (const r of idle) {
+      logReservationEvent(cwd, state.agentName, "release", r.pattern, "idle");
+    }
+    store.processWaitQueue(dirs, state.agentName).catch(() => {});
+  }
+
   // ===========================================================================
   // Status
   // ===========================================================================
@@ -285,7 +469,10 @@ export default function piMessengerExtension(pi: ExtensionAPI) {
   function startStatusHeartbeat(): void {
     if (statusHeartbeatTimer) return;
     statusHeartbeatTimer = setInterval(() => {
-      if (latestCtx) updateStatus(latestCtx);
+      if (!latestCtx) return;
+      expireReservations(latestCtx);
+      releaseIdleAutoReservations(latestCtx);
+      updateStatus(latestCtx);
     }, STATUS_HEARTBEAT_MS);
   }
 
@@ -334,8 +521,31 @@ Usage (action-based API):
   pi_messenger({ action: "feed", limit: 20 })                   → Activity feed
   pi_messenger({ action: "whois", name: "AgentName" })          → Agent details
   pi_messenger({ action: "set_status", message: "reviewing" })  → Set custom status
-  pi_messenger({ action: "reserve", paths: ["src/"] })          → Reserve files
-  pi_messenger({ action: "send", to: "Agent", message: "hi" })  → Send message`,
+  pi_messenger({ action: "reserve", paths: ["src/**/*.ts"] })   → Reserve files (globs, "!" excludes)
+  pi_messenger({ action: "reserve", paths: ["api/"], mode: "shared" }) → Shared read lock (or "intent")
+  pi_messenger({ action: "renew", ttl: 1800 })                  → Extend reservation leases
+  pi_messenger({ action: "wait_for", paths: ["src/a.ts"] })     → Queue for a reserved path
+  pi_messenger({ action: "reservations" })                      → Reservation history and contention
+  pi_messenger({ action: "force_release", name: "Agent" })      → Free a hung agent's reservations (human only)
+  pi_messenger({ action: "send", to: "Agent", message: "hi" })  → Send message
+  pi_messenger({ action: "send", to: "Agent", message: "stop!", priority: "urgent" }) → Interrupt now (or "fyi": no turn)
+  pi_messenger({ action: "send", to: "Agent", message: "see", attachments: [{ type: "file", path: "src/a.ts", startLine: 10, endLine: 20 }] })
+  pi_messenger({ action: "ask", to: "Agent", message: "which port?" }) → Wait for the answer (timeout in seconds)
+  pi_messenger({ action: "channel.create", channel: "frontend" }) → Create a topic channel (also channel.join/leave/list)
+  pi_messenger({ action: "send", to: "channel:frontend", message: "hi" }) → Post to every channel member
+  pi_messenger({ action: "thread", threadId: "1a2b3c4d" })      → Whole conversation for a thread
+  pi_messenger({ action: "history", from: "Agent", since: "2h" }) → Archived messages (from/to/since/until)
+  pi_messenger({ action: "search", query: "auth migration" })   → Full-text search of the archive
+
+  // Crew
+  pi_messenger({ action: "plan" })                              → Turn PRD.md/SPEC.md/DESIGN.md into tasks (or prd: "path", prompt: "...")
+  pi_messenger({ action: "work" })                              → Spawn workers for one wave of ready tasks
+  pi_messenger({ action: "work", autonomous: true })            → Run waves until all tasks are done or blocked
+  pi_messenger({ action: "task.ready" })                        → Tasks whose dependencies are all complete
+  pi_messenger({ action: "task.progress", taskId: "task-1", message: "..." }) → Append to the task's progress log
+  pi_messenger({ action: "task.block", taskId: "task-1", reason: "..." }) → Mark a task blocked (task.unblock reverses)
+  pi_messenger({ action: "review", target: "task-1" })          → Reviewer verdict on a completed task (NEEDS_WORK reopens it)
+  pi_messenger({ action: "claim", taskId: "task-1" })           → Claim a planned task (also unclaim/complete)`,
     parameters: Type.Object({
       action: Type.Optional(Type.String({
         description: "Action to perform (e.g., 'join', 'status', 'list', 'send')"
@@ -346,18 +556,48 @@ Usage (action-based API):
       // ═══════════════════════════════════════════════════════════════════════
       spec: Type.Optional(Type.String({ description: "Path to spec/plan file" })),
       notes: Type.Optional(Type.String({ description: "Completion notes" })),
-      to: Type.Optional(Type.Any({ description: "Target agent name (string) or multiple names (array)" })),
-      message: Type.Optional(Type.String({ description: "Message to send" })),
-      replyTo: Type.Optional(Type.String({ description: "Message ID if this is a reply" })),
-      reason: Type.Optional(Type.String({ description: "Reason for reservation" })),
-      taskId: Type.Optional(Type.String({ description: "Task ID for claim/unclaim/complete" })),
-      paths: Type.Optional(Type.Array(Type.String(), { description: "Paths for reserve/release actions" })),
-      name: Type.Optional(Type.String({ description: "Agent name for whois/rename" })),
-      limit: Type.Optional(Type.Number({ description: "Number of events to return (for feed action, default 20)" })),
+      to: Type.Optional(Type.Any({ description: "Target agent name (string) or multiple names (array); \"channel:<name>\" posts to a channel" })),
+      channel: Type.Optional(Type.String({ description: "Channel name for channel.create/join/leave" })),
+      message: Type.Optional(Type.String({ description: "Message to send, or the note for task.progress" })),
+      replyTo: Type.Optional(Type.String({ description: "Message ID if this is a reply (keeps the conversation in one thread)" })),
+      attachments: Type.Optional(Type.Array(Type.Object({
+        type: StringEnum(ATTACHMENT_TYPES, { description: "file (path + optional line range), diff (unified diff), json (data), task (taskId)" }),
+        path: Type.Optional(Type.String({ description: "File path for file/diff attachments" })),
+        startLine: Type.Optional(Type.Number()),
+        endLine: Type.Optional(Type.Number()),
+        note: Type.Optional(Type.String({ description: "Short note on a file reference" })),
+        diff: Type.Optional(Type.String({ description: "Unified diff text" })),
+        data: Type.Optional(Type.Any({ description: "JSON value for json attachments" })),
+        label: Type.Optional(Type.String({ description: "Label for a json attachment" })),
+        taskId: Type.Optional(Type.String()),
+        spec: Type.Optional(Type.String()),
+      }), { description: "Structured attachments for send/broadcast instead of pasting paths, diffs or JSON into the message" })),
+      priority: Type.Optional(StringEnum(MESSAGE_PRIORITIES, { description: "For send/broadcast: urgent (interrupts now), normal (default, after the recipient's current turn), fyi (no turn)" })),
+      threadId: Type.Optional(Type.String({ description: "Thread or message ID (or its 8-character prefix) for thread" })),
+      reason: Type.Optional(Type.String({ description: "Reason for reservation, or why a task is blocked (task.block)" })),
+      taskId: Type.Optional(Type.String({ description: "Task ID for claim/unclaim/complete and task.progress/block/unblock" })),
+      prd: Type.Optional(Type.String({ description: "PRD path for plan (auto-discovers PRD.md, SPEC.md or DESIGN.md if omitted)" })),
+      prompt: Type.Optional(Type.String({ description: "Inline request for plan instead of a PRD file, or extra instructions alongside prd" })),
+      autonomous: Type.Optional(Type.Boolean({ description: "For work: keep running waves until all tasks are done or blocked" })),
+      replan: Type.Optional(Type.Boolean({ description: "For plan: replace a plan that has completed tasks (the old plan is archived)" })),
+      concurrency: Type.Optional(Type.Number({ description: "For work: workers per wave (capped by crew.concurrency.max)" })),
+      model: Type.Optional(Type.String({ description: "For work: worker model for this run (overrides crew.models.worker)" })),
+      target: Type.Optional(Type.String({ description: "Task ID for review" })),
+      paths: Type.Optional(Type.Array(Type.String(), { description: "Paths or glob patterns for reserve/release actions (prefix with ! to exclude), or paths to queue for with wait_for" })),
+      mode: Type.Optional(StringEnum(RESERVATION_MODES, { description: "Reservation mode for reserve: exclusive (default, blocks edits), shared (read lock, several holders), intent (advisory, warns only)" })),
+      ttl: Type.Optional(Type.Number({ description: "Reservation lease in seconds for reserve/renew (expires unless renewed)" })),
+      timeout: Type.Optional(Type.Number({ description: "Seconds ask waits for an answer (default from askTimeout config)" })),
+      autoGrant: Type.Optional(Type.Boolean({ description: "For wait_for: take the reservation automatically when it is your turn" })),
+      name: Type.Optional(Type.String({ description: "Agent name for whois/rename/force_release" })),
+      limit: Type.Optional(Type.Number({ description: "Number of events to return (for feed action, default 20), or messages for history/search" })),
+      from: Type.Optional(Type.String({ description: "Sender filter for history/search" })),
+      since: Type.Optional(Type.String({ description: "For history/search: ISO date or relative duration (\"30m\", \"2h\", \"7d\")" })),
+      until: Type.Optional(Type.String({ description: "For history/search: ISO date or relative duration" })),
+      query: Type.Optional(Type.String({ description: "Full-text query for search (all words must match)" })),
       autoRegisterPath: Type.Optional(StringEnum(["add", "remove", "list"], { description: "Manage auto-register paths: add/remove current folder, or list all" }))
     }),
 
-    async execute(_toolCallId, rawParams, _signal, _onUpdate, ctx) {
+    async execute(_toolCallId, rawParams, signal, _onUpdate, ctx) {
       const params = rawParams as Record<string, unknown>;
       latestCtx = ctx;
 
@@ -370,7 +610,7 @@ Usage (action-based API):
       // Actions that DON'T require registration
       // ═══════════════════════════════════════════════════════════════════════
       if (action === "join") {
-        const result = handlers.executeJoin(state, dirs, ctx, deliverMessage, updateStatus, params.spec as string | undefined, nameTheme, config.feedRetention);
+        const result = handlers.executeJoin(state, dirs, ctx, deliverMessage, updateStatus, params.spec as string | undefined, nameTheme, config.feedRetention, config.archiveRetention);
         if (state.registered && config.registrationContext) {
           sendRegistrationContext(ctx);
         }
@@ -406,7 +646,11 @@ Usage (action-based API):
           if (!name) {
             return { content: [{ type: "text" as const, text: "Error: name required for whois action." }], details: { mode: "whois", error: "missing_name" } };
           }
-          return handlers.executeWhois(state, dirs, cwd, name, { stuckThreshold: config.stuckThreshold });
+          return handlers.executeWhois(state, dirs, cwd, name, {
+            stuckThreshold: config.stuckThreshold,
+            maxMessagesPerMinute: config.maxMessagesPerMinute,
+            maxBroadcastsPerHour: config.maxBroadcastsPerHour,
+          });
         }
 
         case "set_status":
@@ -415,6 +659,9 @@ Usage (action-based API):
         case "feed":
           return handlers.executeFeed(cwd, params.limit as number | undefined);
 
+        case "reservations":
+          return handlers.executeReservations(cwd, params.paths as string[] | undefined);
+
         case "spec": {
           const specPath = params.spec as string | undefined;
           if (!specPath) {
@@ -424,22 +671,98 @@ Usage (action-based API):
         }
 
         case "send":
-          return handlers.executeSend(state, dirs, cwd, params.to as string | string[] | undefined, false, params.message as string | undefined, params.replyTo as string | undefined);
+        case "broadcast": {
+          const priority = params.priority as MessagePriority | undefined;
+          if (priority && !MESSAGE_PRIORITIES.includes(priority)) {
+            return { content: [{ type: "text" as const, text: `Error: priority must be one of ${MESSAGE_PRIORITIES.join(", ")}.` }], details: { mode: "send", error: "invalid_priority" } };
+          }
+          let attachments: MessageAttachment[] | undefined;
+          if (Array.isArray(params.attachments) && params.attachments.length > 0) {
+            const normalized = normalizeAttachments(params.attachments);
+            if ("error" in normalized) {
+              return { content: [{ type: "text" as const, text: `Error: ${normalized.error}.` }], details: { mode: "send", error: "invalid_attachment" } };
+            }
+            attachments = normalized.attachments;
+          }
+          return action === "send"
+            ? handlers.executeSend(state, dirs, cwd, params.to as string | string[] | undefined, false, params.message as string | undefined, params.replyTo as string | undefined, config.offlineRetention, priority, attachments, outboundBudget)
+            : handlers.executeSend(state, dirs, cwd, undefined, true, params.message as string | undefined, params.replyTo as string | undefined, 0, priority, attachments, outboundBudget);
+        }
 
-        case "broadcast":
-          return handlers.executeSend(state, dirs, cwd, undefined, true, params.message as string | undefined, params.replyTo as string | undefined);
+        case "ask": {
+          const priority = params.priority as MessagePriority | undefined;
+          if (priority && !MESSAGE_PRIORITIES.includes(priority)) {
+            return { content: [{ type: "text" as const, text: `Error: priority must be one of ${MESSAGE_PRIORITIES.join(", ")}.` }], details: { mode: "ask", error: "invalid_priority" } };
+          }
+          const timeout = typeof params.timeout === "number" && params.timeout > 0 ? params.timeout : config.askTimeout;
+          return handlers.executeAsk(state, dirs, cwd, typeof params.to === "string" ? params.to : undefined, params.message as string | undefined, timeout, signal, priority, outboundBudget);
+        }
+
+        case "channel.create":
+          return handlers.executeChannelCreate(state, dirs, params.channel as string | undefined);
+
+        case "channel.join":
+        case "channel.leave":
+          return handlers.executeChannelMembership(state, dirs, params.channel as string | undefined, action === "channel.join");
+
+        case "channel.list":
+          return handlers.executeChannelList(state, dirs);
+
+        case "history":
+        case "search": {
+          const filters = {
+            from: params.from as string | undefined,
+            to: typeof params.to === "string" ? params.to : undefined,
+            since: params.since as string | undefined,
+            until: params.until as string | undefined,
+            limit: params.limit as number | undefined,
+          };
+          return action === "search"
+            ? handlers.executeSearch(cwd, params.query as string | undefined, filters)
+            : handlers.executeHistory(cwd, filters);
+        }
+
+        case "thread":
+          return handlers.executeThread(cwd, (params.threadId ?? params.replyTo) as string | undefined);
 
         case "reserve": {
           const paths = params.paths as string[] | undefined;
           if (!paths || paths.length === 0) {
             return { content: [{ type: "text" as const, text: "Error: paths required for reserve action." }], details: { mode: "reserve", error: "missing_paths" } };
           }
-          return handlers.executeReserve(state, dirs, ctx, paths, params.reason as string | undefined);
+          const mode = (params.mode as ReservationMode | undefined) ?? "exclusive";
+          if (!RESERVATION_MODES.includes(mode)) {
+            return { content: [{ type: "text" as const, text: `Error: mode must be one of ${RESERVATION_MODES.join(", ")}.` }], details: { mode: "reserve", error: "invalid_mode" } };
+          }
+          return handlers.executeReserve(state, dirs, ctx, paths, params.reason as string | undefined, (params.ttl as number | undefined) ?? config.reservationTtl, mode);
         }
 
         case "release":
           return handlers.executeRelease(state, dirs, ctx, (params.paths as string[] | undefined) ?? true);
 
+        case "wait_for": {
+          const paths = params.paths as string[] | undefined;
+          if (!paths || paths.length === 0) {
+            return { content: [{ type: "text" as const, text: "Error: paths required for wait_for action." }], details: { mode: "wait_for", error: "missing_paths" } };
+          }
+          const mode = (params.mode as ReservationMode | undefined) ?? "exclusive";
+          if (!RESERVATION_MODES.includes(mode)) {
+            return { content: [{ type: "text" as const, text: `Error: mode must be one of ${RESERVATION_MODES.join(", ")}.` }], details: { mode: "wait_for", error: "invalid_mode" } };
+          }
+          return handlers.executeWaitFor(state, dirs, ctx, paths, params.autoGrant === true, mode, params.reason as string | undefined);
+        }
+
+        case "force_release": {
+          const name = params.name as string | undefined;
+          if (!name) {
+            return { content: [{ type: "text" as const, text: "Error: name required for force_release action." }], details: { mode: "force_release", error: "missing_name" } };
+          }
+          return handlers.executeForceRelease(state, dirs, cwd, name, params.paths as string[] | undefined);
+        }
+
+        case "renew":
+          return handlers.executeRenew(state, dirs, ctx, (params.paths as string[] | undefined) ?? true, params.ttl as number | undefined);
+
         case "rename": {
           const newName = params.name as string | undefined;
           if (!newName) {
@@ -475,6 +798,58 @@ Usage (action-based API):
           return handlers.executeComplete(state, dirs, taskId, params.notes as string | undefined, params.spec as string | undefined);
         }
 
+        case "plan":
+          return handlers.executePlan(dirs, {
+            prd: params.prd as string | undefined,
+            prompt: params.prompt as string | undefined,
+            model: config.crew.models.planner,
+            replan: params.replan === true,
+          }, signal, cwd);
+
+        case "review": {
+          const taskId = (params.target ?? params.taskId) as string | undefined;
+          if (!taskId) {
+            return { content: [{ type: "text" as const, text: "Error: target task ID required for review action." }], details: { mode: "review", error: "missing_target" } };
+          }
+          return handlers.executeReview(state, dirs, config.crew, taskId, signal, cwd);
+        }
+
+        case "task.ready":
+          return handlers.executeReady(state, dirs, cwd);
+
+        case "task.progress": {
+          const taskId = params.taskId as string | undefined;
+          const message = params.message as string | undefined;
+          if (!taskId || !message?.trim()) {
+            return { content: [{ type: "text" as const, text: "Error: taskId and message required for task.progress action." }], details: { mode: "task.progress", error: "missing_params" } };
+          }
+          return handlers.executeTaskProgress(state, taskId, message, cwd);
+        }
+
+        case "task.block": {
+          const taskId = params.taskId as string | undefined;
+          const reason = params.reason as string | undefined;
+          if (!taskId || !reason?.trim()) {
+            return { content: [{ type: "text" as const, text: "Error: taskId and reason required for task.block action." }], details: { mode: "task.block", error: "missing_params" } };
+          }
+          return handlers.executeTaskBlock(state, dirs, taskId, reason.trim(), cwd);
+        }
+
+        case "task.unblock": {
+          const taskId = params.taskId as string | undefined;
+          if (!taskId) {
+            return { content: [{ type: "text" as const, text: "Error: taskId required for task.unblock action." }], details: { mode: "task.unblock", error: "missing_taskId" } };
+          }
+          return handlers.executeTaskUnblock(state, taskId, cwd);
+        }
+
+        case "work":
+          return handlers.executeWork(state, dirs, config.crew, {
+            autonomous: params.autonomous === true,
+            concurrency: params.concurrency as number | undefined,
+            model: params.model as string | undefined,
+          }, signal, cwd);
+
         default:
           return { content: [{ type: "text" as const, text: `Unknown action: ${action}` }], details: { mode: "error", error: "unknown_action", action } };
       }
@@ -566,12 +941,33 @@ Usage (action-based API):
     const details = message.details;
     if (!details) return undefined;
 
+    const MAX_ATTACHMENT_LINES = 20;
+    const renderAttachment = (a: MessageAttachment, width: number): string[] => {
+      const lines = [truncateToWidth(theme.fg("accent", `📎 ${stripAnsiCodes(summarizeAttachment(a))}`), width)];
+      let body: string[] = [];
+      if (a.type === "diff") {
+        body = stripAnsiCodes(a.diff).split("\n").map(line =>
+          line.startsWith("+") && !line.startsWith("+++") ? theme.fg("success", line)
+            : line.startsWith("-") && !line.startsWith("---") ? theme.fg("error", line)
+            : theme.fg("dim", line));
+      } else if (a.type === "json") {
+        body = stripAnsiCodes(JSON.stringify(a.data, null, 2)).split("\n").map(line => theme.fg("dim", line));
+      }
+      for (const line of body.slice(0, MAX_ATTACHMENT_LINES)) {
+        lines.push(truncateToWidth(`  ${line}`, width));
+      }
+      if (body.length > MAX_ATTACHMENT_LINES) {
+        lines.push(theme.fg("dim", `  … ${body.length - MAX_ATTACHMENT_LINES} more lines`));
+      }
+      return lines;
+    };
+
     return {
       render(width: number): string[] {
         const safeFrom = stripAnsiCodes(details.from);
         const safeText = stripAnsiCodes(details.text);
         
-        const header = theme.fg("accent", `From ${safeFrom}`);
+        const header = theme.fg("accent", `From ${safeFrom}${details.channel ? ` in #${stripAnsiCodes(details.channel)}` : ""}`);
         const time = theme.fg("dim", ` (${formatRelativeTime(details.timestamp)})`);
 
         const result: string[] = [];
@@ -582,6 +978,13 @@ Usage (action-based API):
           result.push(truncateToWidth(line, width));
         }
 
+        if (details.attachments && details.attachments.length > 0) {
+          result.push("");
+          for (const a of details.attachments) {
+            result.push(...renderAttachment(a, width));
+          }
+        }
+
         return result;
       },
       invalidate() {}
@@ -703,6 +1106,8 @@ Usage (action-based API):
 
     updateLastActivity();
     incrementToolCount();
+    expireReservations(ctx);
+    releaseIdleAutoReservations(ctx);
     scheduleRegistryFlush(ctx);
 
     const toolName = event.toolName;
@@ -783,7 +1188,8 @@ Usage (action-based API):
     state.isHuman = ctx.hasUI;
     try { fs.rmSync(join(homedir(), ".pi/agent/messenger/feed.jsonl"), { force: true }); } catch {}
 
-    const shouldAutoRegister = config.autoRegister || 
+    // Crew workers join on start so the orchestrator can claim their task for them
+    const shouldAutoRegister = config.autoRegister || !!process.env[CREW_TASK_ENV] ||
       matchesAutoRegisterPath(process.cwd(), config.autoRegisterPaths);
 
     if (!shouldAutoRegister) {
@@ -795,6 +1201,7 @@ Usage (action-based API):
       store.startWatcher(state, dirs, deliverMessage);
       updateStatus(ctx);
       pruneFeed(cwd, config.feedRetention);
+      pruneArchive(cwd, config.archiveRetention);
       logFeedEvent(cwd, state.agentName, "join");
 
       if (config.registrationContext) {
@@ -827,6 +1234,7 @@ Usage (action-based API):
 
   pi.on("turn_end", async (_event, ctx) => {
     latestCtx = ctx;
+    sendReadReceipts();
     store.processAllPendingMessages(state, dirs, deliverMessage);
     recoverWatcherIfNeeded();
     updateStatus(ctx);
@@ -863,34 +1271,136 @@ Usage (action-based API):
     if (recentTestTimer) { clearTimeout(recentTestTimer); recentTestTimer = null; }
     if (recentEditTimer) { clearTimeout(recentEditTimer); recentEditTimer = null; }
     store.stopWatcher(state);
+    const heldReservations = state.registered && state.reservations.length > 0;
     store.unregister(state, dirs);
+    if (heldReservations) {
+      await store.processWaitQueue(dirs, state.agentName).catch(() => []);
+    }
   });
 
   // ===========================================================================
   // Reservation Enforcement
   // ===========================================================================
 
-  pi.on("tool_call", async (event, _ctx) => {
-    if (!["edit", "write"].includes(event.toolName)) return;
-
-    const input = event.input as Record<string, unknown>;
-    const filePath = typeof input.path === "string" ? input.path : null;
-    if (!filePath) return;
-
-    const conflicts = store.getConflictsWithOtherAgents(filePath, state, dirs);
-    if (conflicts.length === 0) return;
-
-    const c = conflicts[0];
+  function describeConflict(filePath: string, c: ReservationConflict, cwd: string): string[] {
     const folder = extractFolder(c.registration.cwd);
     const locationPart = c.registration.gitBranch
       ? ` (in ${folder} on ${c.registration.gitBranch})`
       : ` (in ${folder})`;
 
-    const lines = [filePath, `Reserved by: ${c.agent}${locationPart}`];
+    const label = c.mode === "exclusive" ? "Reserved by" : `Reserved (${c.mode}) by`;
+    const lines = [filePath, `${label}: ${c.agent}${locationPart}`];
+    const pattern = displayReservationPath(c.pattern, cwd);
+    if (isGlobPattern(pattern) || pattern.endsWith("/")) lines.push(`Pattern: ${pattern}`);
     if (c.reason) lines.push(`Reason: "${c.reason}"`);
     lines.push("");
     lines.push(`Coordinate via pi_messenger({ action: "send", to: "${c.agent}", message: "..." })`);
+    return lines;
+  }
 
-    return { block: true, reason: lines.join("\n") };
+  function logBlockedEdit(c: ReservationConflict, cwd: string): void {
+    if (!state.registered) return;
+    logReservationEvent(cwd, state.agentName, "blocked", c.path, c.agent);
+  }
+
+  /**
+   * Bash commands bypass the edit/write guard, so statically extract the files
+   * they are likely to write and check those. Depending on
+   * `bashReservationGuard`, a blocking reservation either blocks the command
+   * or just produces a notice.
+   */
+  function checkBashReservations(input: Record<string, unknown>, cwd: string) {
+    if (config.bashReservationGuard === "off") return;
+    const command = typeof input.command === "string" ? input.command : null;
+    if (!command) return;
+
+    const conflicts = extractBashWriteTargets(command)
+      .flatMap(target => store.getConflictsWithOtherAgents(target, state, dirs, cwd));
+    if (conflicts.length === 0) return;
+
+    const blocking = conflicts.find(c => reservationBlocksEdits(c.mode));
+    const shown = blocking ?? conflicts[0];
+    const details = describeConflict(displayReservationPath(shown.path, cwd), shown, cwd).join("\n");
+
+    if (blocking && config.bashReservationGuard === "block") {
+      logBlockedEdit(blocking, cwd);
+      return { block: true, reason: `This command writes to a reserved path:\n${details}` };
+    }
+
+    pi.sendMessage({
+      customType: "reservation_notice",
+      content: `Heads up — this command writes to a reserved path:\n${details}`,
+      display: true,
+    }, { triggerTurn: false });
+  }
+
+  pi.on("tool_call", async (event, ctx) => {
+    if (event.toolName === "bash") {
+      return checkBashReservations(event.input as Record<string, unknown>, ctx.cwd ?? process.cwd());
+    }
+    if (!["edit", "write"].includes(event.toolName)) return;
+
+    const input = event.input as Record<string, unknown>;
+    const filePath = typeof input.path === "string" ? input.path : null;
+    if (!filePath) return;
+
+    const cwd = ctx.cwd ?? process.cwd();
+    const conflicts = store.getConflictsWithOtherAgents(filePath, state, dirs, cwd);
+    if (conflicts.length === 0) {
+      autoReserveOnEdit(filePath, cwd, ctx);
+      warnAboutPeerModifications(filePath, cwd);
+      return;
+    }
+
+    const blocking = conflicts.find(c => reservationBlocksEdits(c.mode));
+    if (blocking) {
+      logBlockedEdit(blocking, cwd);
+      const lines = describeConflict(filePath, blocking, cwd);
+      lines.push(`Or wait for it: pi_messenger({ action: "wait_for", paths: [${JSON.stringify(filePath)}], autoGrant: true })`);
+      return { block: true, reason: lines.join("\n") };
+    }
+
+    // Intent reservations are advisory: let the edit through but tell the agent
+    pi.sendMessage({
+      customType: "reservation_notice",
+      content: `Heads up — ${describeConflict(filePath, conflicts[0], cwd).join("\n")}`,
+      display: true,
+    }, { triggerTurn: false });
   });
+
+  // ===========================================================================
+  // Git Preflight
+  // ===========================================================================
+
+  // peer:sessionId:path already warned about, so repeated edits stay quiet
+  const warnedPeerEdits = new Set<string>();
+
+  /**
+   * Most collisions happen on files nobody reserved. Warn (never block) when a
+   * peer in the same work tree has edited this file and its changes are still
+   * uncommitted.
+   */
+  function warnAboutPeerModifications(filePath: string, cwd: string): void {
+    const peers = store.getPeerModifications(filePath, state, dirs, cwd)
+      .filter(p => !warnedPeerEdits.has(`${p.agent}:${p.registration.sessionId}:${p.path}`));
+    if (peers.length === 0) return;
+
+    const lines = [filePath];
+    for (const p of peers) {
+      warnedPeerEdits.add(`${p.agent}:${p.registration.sessionId}:${p.path}`);
+      const folder = extractFolder(p.registration.cwd);
+      const locationPart = p.registration.gitBranch
+        ? ` (in ${folder} on ${p.registration.gitBranch})`
+        : ` (in ${folder})`;
+      lines.push(`Uncommitted changes by: ${p.agent}${locationPart}`);
+    }
+    lines.push("");
+    lines.push(`Coordinate via pi_messenger({ action: "send", to: "${peers[0].agent}", message: "..." })`);
+
+    pi.sendMessage({
+      customType: "reservation_notice",
+      content: `Heads up — ${lines.join("\n")}`,
+      display: true,
+    }, { triggerTurn: false });
+  }
 }
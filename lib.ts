@@ -9,10 +9,35 @@ import { basename, isAbsolute, resolve, relative } from "node:path";
 // Types
 // =============================================================================
 
+/**
+ * exclusive: blocks other agents' edits (the default).
+ * shared: read lock several agents may hold; blocks edits and exclusive claims.
+ * intent: advisory only; others are warned but never blocked.
+ */
+export type ReservationMode = "exclusive" | "shared" | "intent";
+
+export const RESERVATION_MODES: readonly ReservationMode[] = ["exclusive", "shared", "intent"];
+
+/**
+ * urgent: interrupts the recipient mid-turn (steer).
+ * normal: waits until the recipient's current turn ends (the default).
+ * fyi: shown to the recipient without starting a turn.
+ */
+export type MessagePriority = "urgent" | "normal" | "fyi";
+
+export const MESSAGE_PRIORITIES: readonly MessagePriority[] = ["urgent", "normal", "fyi"];
+
 export interface FileReservation {
   pattern: string;
+  mode?: ReservationMode;
   reason?: string;
   since: string;
+  exclude?: string[];
+  /** Lease length in seconds; renewals extend by this much unless given a new one. */
+  ttl?: number;
+  expiresAt?: string;
+  /** Taken automatically on first edit; released after `autoReserveIdle` without edits. */
+  auto?: boolean;
 }
 
 export interface AgentSession {
@@ -41,8 +66,32 @@ export interface AgentRegistration {
   session: AgentSession;
   activity: AgentActivity;
   statusMessage?: string;
+  outbound?: OutboundLog;
 }
 
+/** Recent send times (epoch ms) for outbound budgets: messages for a minute, broadcasts for an hour. */
+export interface OutboundLog {
+  /** One entry per direct or channel target. */
+  messages: number[];
+  broadcasts: number[];
+}
+
+export interface OutboundBudget {
+  /** 0 disables a limit. */
+  messagesPerMinute: number;
+  broadcastsPerHour: number;
+  /** Applies to the message text; attachments are capped by checkAttachmentLimits. */
+  maxMessageBytes: number;
+}
+
+export type MessageAttachment =
+  | { type: "file"; path: string; startLine?: number; endLine?: number; note?: string }
+  | { type: "diff"; diff: string; path?: string }
+  | { type: "json"; data: unknown; label?: string }
+  | { type: "task"; taskId: string; spec?: string };
+
+export const ATTACHMENT_TYPES: readonly MessageAttachment["type"][] = ["file", "diff", "json", "task"];
+
 export interface AgentMailMessage {
   id: string;
   from: string;
@@ -50,12 +99,56 @@ export interface AgentMailMessage {
   text: string;
   timestamp: string;
   replyTo: string | null;
+  /** ID of the first message in the conversation; replies inherit it. */
+  threadId?: string;
+  priority?: MessagePriority;
+  attachments?: MessageAttachment[];
+  /** Channel the message was posted to; each member gets its own copy. */
+  channel?: string;
+  /** Sent by `ask`: the sender's tool call is blocked until a reply with this message as `replyTo`. */
+  question?: boolean;
+  /** Reservation handed over by the wait queue; applied by the recipient on delivery. */
+  reservationGrant?: FileReservation;
+  /** Patterns of the recipient's reservations removed by a force_release. */
+  reservationRevoked?: string[];
+  /** Set while held for an offline agent; the message is dropped if not picked up by then. */
+  offlineUntil?: string;
+  /** Acknowledgement for a message the recipient sent; applied without a turn. */
+  receipt?: MessageReceipt;
+}
+
+/** A topic channel; membership is stored under channels/ beside the registry. */
+export interface Channel {
+  name: string;
+  createdBy: string;
+  createdAt: string;
+  members: string[];
+}
+
+export type MessageStatus = "queued" | "delivered" | "read";
+
+export interface MessageReceipt {
+  messageId: string;
+  status: Exclude<MessageStatus, "queued">;
+  at: string;
+}
+
+/** A message we sent, tracked until the recipient acknowledges it. */
+export interface SentMessage {
+  id: string;
+  to: string;
+  text: string;
+  timestamp: string;
+  status: MessageStatus;
+  deliveredAt?: string;
+  readAt?: string;
 }
 
 export interface ReservationConflict {
   path: string;
   agent: string;
   pattern: string;
+  mode: ReservationMode;
   reason?: string;
   registration: AgentRegistration;
 }
@@ -69,6 +162,8 @@ export interface MessengerState {
   watcherDebounceTimer: ReturnType<typeof setTimeout> | null;
   reservations: FileReservation[];
   chatHistory: Map<string, AgentMailMessage[]>;
+  sentMessages: Map<string, SentMessage>;
+  outbound: OutboundLog;
   unreadCounts: Map<string, number>;
   broadcastHistory: AgentMailMessage[];
   seenSenders: Map<string, string>;
@@ -99,10 +194,42 @@ export interface ClaimEntry {
   reason?: string;
 }
 
+export interface WaitEntry {
+  agent: string;
+  sessionId: string;
+  pid: number;
+  path: string;
+  autoGrant: boolean;
+  mode?: ReservationMode;
+  reason?: string;
+  since: string;
+}
+
+export type ReviewVerdict = "SHIP" | "NEEDS_WORK" | "MAJOR_RETHINK";
+export const REVIEW_VERDICTS: readonly ReviewVerdict[] = ["SHIP", "NEEDS_WORK", "MAJOR_RETHINK"];
+
+export interface ReviewRecord {
+  verdict: ReviewVerdict;
+  reviewedBy: string;
+  reviewedAt: string;
+  feedback: string;
+}
+
 export interface CompletionEntry {
   completedBy: string;
   completedAt: string;
   notes?: string;
+  /** Latest review of this completion. NEEDS_WORK reopens the task. */
+  review?: ReviewRecord;
+}
+
+/**
+ * A completion reopened by review (NEEDS_WORK or MAJOR_RETHINK) no longer
+ * counts as done and can be completed again.
+ */
+export function isCompletionReopened(completion: CompletionEntry | undefined): boolean {
+  const verdict = completion?.review?.verdict;
+  return verdict === "NEEDS_WORK" || verdict === "MAJOR_RETHINK";
 }
 
 export type SpecClaims = Record<string, ClaimEntry>;
@@ -205,6 +332,11 @@ export function generateAutoStatus(ctx: AutoStatusContext): string | undefined {
 
 export const MAX_WATCHER_RETRIES = 5;
 export const MAX_CHAT_HISTORY = 50;
+export const MAX_SENT_TRACKED = 100;
+export const MAX_ATTACHMENTS = 10;
+/** Serialized size cap for a single attachment and for all of a message's attachments. */
+export const MAX_ATTACHMENT_BYTES = 16 * 1024;
+export const MAX_ATTACHMENTS_TOTAL_BYTES = 48 * 1024;
 
 const AGENT_COLORS = [
   "38;2;178;129;214",  // purple
@@ -310,6 +442,22 @@ export function isValidAgentName(name: string): boolean {
   return /^[a-zA-Z0-9_][a-zA-Z0-9_-]*$/.test(name);
 }
 
+/** A message or thread ID (a UUID) or a prefix of one at least 4 characters long. */
+export function isMessageRef(ref: string): boolean {
+  return ref.length <= 36 && /^[0-9a-f]{4}[0-9a-f-]*$/i.test(ref);
+}
+
+/** Channel names are lowercase; a leading "#" is accepted and dropped. */
+export function normalizeChannelName(raw: string): string | null {
+  const name = raw.trim().replace(/^#/, "").toLowerCase();
+  return /^[a-z0-9][a-z0-9_-]{0,31}$/.test(name) ? name : null;
+}
+
+/** The channel a `send` target like "channel:frontend" refers to, or null for an agent name. */
+export function parseChannelTarget(to: string): string | null {
+  return to.startsWith("channel:") ? to.slice("channel:".length).trim().replace(/^#/, "").toLowerCase() : null;
+}
+
 export function formatRelativeTime(timestamp: string): string {
   const diff = Date.now() - new Date(timestamp).getTime();
   const seconds = Math.floor(diff / 1000);
@@ -321,13 +469,6 @@ export function formatRelativeTime(timestamp: string): string {
   return "just now";
 }
 
-export function pathMatchesReservation(filePath: string, pattern: string): boolean {
-  if (pattern.endsWith("/")) {
-    return filePath.startsWith(pattern) || filePath + "/" === pattern;
-  }
-  return filePath === pattern;
-}
-
 export function stripAnsiCodes(text: string): string {
   // eslint-disable-next-line no-control-regex
   return text.replace(/\x1b\[[0-9;]*[a-zA-Z]/g, "");
@@ -395,12 +536,43 @@ export function buildSelfRegistration(state: MessengerState): AgentRegistration
     spec: state.spec,
     isHuman: state.isHuman,
     session: { ...state.session },
+    outbound: state.outbound,
     activity: { ...state.activity },
     reservations: state.reservations.length > 0 ? state.reservations : undefined,
     statusMessage: state.statusMessage,
   };
 }
 
+/** Reason recorded on an auto-reservation: the agent's claimed task, else its status message. */
+export function autoReserveReason(
+  name: string,
+  allClaims: AllClaims,
+  statusMessage?: string,
+): string {
+  for (const tasks of Object.values(allClaims)) {
+    for (const [taskId, claim] of Object.entries(tasks)) {
+      if (claim.agent === name) return claim.reason ? `${taskId}: ${claim.reason}` : `working on ${taskId}`;
+    }
+  }
+  return statusMessage || "auto-reserved on first edit";
+}
+
+/**
+ * Priority a message is delivered at after the recipient's per-sender caps
+ * (`"*"` applies to every sender). Caps only ever lower a priority.
+ */
+export function effectivePriority(
+  priority: MessagePriority | undefined,
+  from: string,
+  caps: Record<string, MessagePriority>,
+): MessagePriority {
+  let result = priority ?? "normal";
+  for (const cap of [caps["*"], caps[from]]) {
+    if (cap && MESSAGE_PRIORITIES.indexOf(cap) > MESSAGE_PRIORITIES.indexOf(result)) result = cap;
+  }
+  return result;
+}
+
 export function agentHasTask(
   name: string,
   allClaims: AllClaims,
@@ -430,3 +602,677 @@ export function getDisplayMode(agents: AgentRegistration[]): DisplayMode {
   
   return "same-folder";
 }
+
+// =============================================================================
+// Reservation Patterns
+// =============================================================================
+
+type GlobToken =
+  | { kind: "char"; ch: string }
+  | { kind: "any" }
+  | { kind: "star" }
+  | { kind: "class"; negated: boolean; ranges: Array<[number, number]> };
+
+/** A path segment is either a token list or the `**` globstar (zero or more segments). */
+type GlobSegment = GlobToken[] | "**";
+
+const MAX_BRACE_EXPANSIONS = 256;
+
+export function isGlobPattern(pattern: string): boolean {
+  return /[*?[{]/.test(pattern);
+}
+
+function splitBraceBody(body: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (ch === "\\" && i + 1 < body.length) {
+      current += ch + body[++i];
+      continue;
+    }
+    if (ch === "{") depth++;
+    if (ch === "}") depth--;
+    if (ch === "," && depth === 0) {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    current += ch;
+  }
+  parts.push(current);
+  return parts;
+}
+
+export function expandBraces(pattern: string): string[] {
+  let depth = 0;
+  let start = -1;
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "\\") {
+      i++;
+      continue;
+    }
+    if (ch === "{") {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (ch === "}" && depth > 0) {
+      depth--;
+      if (depth !== 0) continue;
+      const alternatives = splitBraceBody(pattern.slice(start + 1, i));
+      if (alternatives.length < 2) continue;
+      const prefix = pattern.slice(0, start);
+      const suffix = pattern.slice(i + 1);
+      const expanded: string[] = [];
+      for (const alt of alternatives) {
+        for (const p of expandBraces(prefix + alt + suffix)) {
+          if (expanded.length >= MAX_BRACE_EXPANSIONS) return expanded;
+          expanded.push(p);
+        }
+      }
+      return expanded;
+    }
+  }
+  return [pattern];
+}
+
+function parseCharClass(body: string): GlobToken {
+  let negated = false;
+  let i = 0;
+  if (body[0] === "!" || body[0] === "^") {
+    negated = true;
+    i = 1;
+  }
+  const ranges: Array<[number, number]> = [];
+  for (; i < body.length; i++) {
+    const lo = body.charCodeAt(i);
+    if (body[i + 1] === "-" && i + 2 < body.length) {
+      ranges.push([lo, body.charCodeAt(i + 2)]);
+      i += 2;
+    } else {
+      ranges.push([lo, lo]);
+    }
+  }
+  return { kind: "class", negated, ranges };
+}
+
+function tokenizeSegment(segment: string): GlobToken[] {
+  const tokens: GlobToken[] = [];
+  for (let i = 0; i < segment.length; i++) {
+    const ch = segment[i];
+    if (ch === "\\" && i + 1 < segment.length) {
+      tokens.push({ kind: "char", ch: segment[++i] });
+    } else if (ch === "*") {
+      if (tokens[tokens.length - 1]?.kind !== "star") tokens.push({ kind: "star" });
+    } else if (ch === "?") {
+      tokens.push({ kind: "any" });
+    } else if (ch === "[" && segment.indexOf("]", i + 2) !== -1) {
+      const close = segment.indexOf("]", i + 2);
+      tokens.push(parseCharClass(segment.slice(i + 1, close)));
+      i = close;
+    } else {
+      tokens.push({ kind: "char", ch });
+    }
+  }
+  return tokens;
+}
+
+function normalizePatternPath(pattern: string): string {
+  let p = pattern.replace(/\/{2,}/g, "/");
+  while (p.startsWith("./")) p = p.slice(2);
+  // Trailing slash means "this directory and everything below it"
+  if (p.endsWith("/")) p += "**";
+  return p;
+}
+
+function parseGlob(pattern: string): GlobSegment[][] {
+  return expandBraces(normalizePatternPath(pattern)).map(alt =>
+    alt.split("/").map(seg => seg === "**" ? "**" : tokenizeSegment(seg))
+  );
+}
+
+function parseLiteralPath(filePath: string): GlobSegment[] {
+  let p = filePath.replace(/\/{2,}/g, "/");
+  while (p.startsWith("./")) p = p.slice(2);
+  if (p.length > 1 && p.endsWith("/")) p = p.slice(0, -1);
+  return p.split("/").map(seg => [...seg].map(ch => ({ kind: "char" as const, ch })));
+}
+
+function classContains(token: { negated: boolean; ranges: Array<[number, number]> }, code: number): boolean {
+  const inRanges = token.ranges.some(([lo, hi]) => code >= lo && code <= hi);
+  return token.negated ? !inRanges : inRanges;
+}
+
+function singleTokensOverlap(a: GlobToken, b: GlobToken): boolean {
+  if (a.kind === "any" || b.kind === "any") return true;
+  if (a.kind === "char" && b.kind === "char") return a.ch === b.ch;
+  if (a.kind === "char" && b.kind === "class") return classContains(b, a.ch.charCodeAt(0));
+  if (a.kind === "class" && b.kind === "char") return classContains(a, b.ch.charCodeAt(0));
+  if (a.kind !== "class" || b.kind !== "class") return false;
+  if (a.negated && b.negated) return true;
+  const positive = a.negated ? b : a;
+  const other = a.negated ? a : b;
+  for (const [lo, hi] of positive.ranges) {
+    // Wide ranges are assumed to overlap rather than enumerated
+    if (hi - lo > 1024) return true;
+    for (let code = lo; code <= hi; code++) {
+      if (classContains(other, code)) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Whether two token sequences (single path segments) can match a common string.
+ * `*` on either side may absorb whatever the other side produces.
+ */
+function tokensOverlap(a: GlobToken[], b: GlobToken[]): boolean {
+  const memo = new Map<number, boolean>();
+  const visit = (i: number, j: number): boolean => {
+    const key = i * (b.length + 1) + j;
+    const cached = memo.get(key);
+    if (cached !== undefined) return cached;
+    let out: boolean;
+    if (i === a.length && j === b.length) {
+      out = true;
+    } else if (i < a.length && a[i].kind === "star") {
+      out = visit(i + 1, j) || (j < b.length && visit(i, j + 1));
+    } else if (j < b.length && b[j].kind === "star") {
+      out = visit(i, j + 1) || (i < a.length && visit(i + 1, j));
+    } else if (i === a.length || j === b.length) {
+      out = false;
+    } else {
+      out = singleTokensOverlap(a[i], b[j]) && visit(i + 1, j + 1);
+    }
+    memo.set(key, out);
+    return out;
+  };
+  return visit(0, 0);
+}
+
+function segmentsOverlap(a: GlobSegment[], b: GlobSegment[]): boolean {
+  const memo = new Map<number, boolean>();
+  const visit = (i: number, j: number): boolean => {
+    const key = i * (b.length + 1) + j;
+    const cached = memo.get(key);
+    if (cached !== undefined) return cached;
+    let out: boolean;
+    const segA = a[i];
+    const segB = b[j];
+    if (i === a.length && j === b.length) {
+      out = true;
+    } else if (segA === "**") {
+      out = visit(i + 1, j) || (j < b.length && visit(i, j + 1));
+    } else if (segB === "**") {
+      out = visit(i, j + 1) || (i < a.length && visit(i + 1, j));
+    } else if (i === a.length || j === b.length) {
+      out = false;
+    } else {
+      out = tokensOverlap(segA, segB) && visit(i + 1, j + 1);
+    }
+    memo.set(key, out);
+    return out;
+  };
+  return visit(0, 0);
+}
+
+export function globMatchesPath(filePath: string, pattern: string): boolean {
+  const target = parseLiteralPath(filePath);
+  return parseGlob(pattern).some(alt => segmentsOverlap(alt, target));
+}
+
+/** Whether some path could be matched by both patterns. */
+export function globsOverlap(a: string, b: string): boolean {
+  const altsB = parseGlob(b);
+  return parseGlob(a).some(altA => altsB.some(altB => segmentsOverlap(altA, altB)));
+}
+
+/**
+ * Conservative containment check: true only when every path matched by
+ * `inner` is certainly matched by `outer`. Handles literal paths and
+ * `dir/**`-style outers, which covers the usual exclusion patterns.
+ */
+export function globCovers(outer: string, inner: string): boolean {
+  if (!isGlobPattern(inner)) return globMatchesPath(inner, outer);
+  const normalizedOuter = normalizePatternPath(outer);
+  if (!normalizedOuter.endsWith("/**")) return false;
+  const base = normalizedOuter.slice(0, -3);
+  if (isGlobPattern(base)) return false;
+  return normalizePatternPath(inner).startsWith(base + "/");
+}
+
+export function pathMatchesReservation(filePath: string, pattern: string, exclude?: string[]): boolean {
+  if (!globMatchesPath(filePath, pattern)) return false;
+  return !exclude?.some(ex => globMatchesPath(filePath, ex));
+}
+
+export function reservationsOverlap(a: FileReservation, b: FileReservation): boolean {
+  if (!globsOverlap(a.pattern, b.pattern)) return false;
+  if (a.exclude?.some(ex => globCovers(ex, b.pattern))) return false;
+  if (b.exclude?.some(ex => globCovers(ex, a.pattern))) return false;
+  return true;
+}
+
+/**
+ * Show a canonical (absolute) reservation pattern relative to `cwd` when it
+ * lives inside it. Trailing slashes are kept since they carry directory meaning.
+ */
+export function displayReservationPath(pattern: string, cwd: string): string {
+  if (!isAbsolute(pattern)) return pattern;
+  const trailing = pattern.length > 1 && pattern.endsWith("/") ? "/" : "";
+  const rel = relative(cwd, trailing ? pattern.slice(0, -1) : pattern);
+  if (rel === "") return trailing ? "./" : ".";
+  if (rel.startsWith("..") || isAbsolute(rel)) return pattern;
+  return rel + trailing;
+}
+
+export function formatReservationPattern(reservation: FileReservation, cwd: string = process.cwd()): string {
+  let text = displayReservationPath(reservation.pattern, cwd);
+  if (reservation.exclude && reservation.exclude.length > 0) {
+    text += ` (except ${reservation.exclude.map(ex => displayReservationPath(ex, cwd)).join(", ")})`;
+  }
+  const mode = reservation.mode ?? "exclusive";
+  if (mode !== "exclusive") text += ` [${mode}]`;
+  if (reservation.auto) text += " (auto)";
+  return text;
+}
+
+/** Whether a reservation in this mode stops other agents from editing matching files. */
+export function reservationBlocksEdits(mode: ReservationMode | undefined): boolean {
+  return (mode ?? "exclusive") !== "intent";
+}
+
+/**
+ * How a new reservation relates to an overlapping one held by someone else:
+ * shared locks coexist silently, an exclusive claim over a shared lock is
+ * refused, and every other overlap is reported as a warning.
+ */
+export function reservationOverlapOutcome(
+  requested: ReservationMode | undefined,
+  held: ReservationMode | undefined
+): "ok" | "warn" | "reject" {
+  const req = requested ?? "exclusive";
+  const hld = held ?? "exclusive";
+  if (req === "shared" && hld === "shared") return "ok";
+  if (req === "exclusive" && hld === "shared") return "reject";
+  return "warn";
+}
+
+export function isReservationExpired(reservation: FileReservation, now: number = Date.now()): boolean {
+  if (!reservation.expiresAt) return false;
+  const expiresAt = new Date(reservation.expiresAt).getTime();
+  return !isNaN(expiresAt) && expiresAt <= now;
+}
+
+export function formatReservationExpiry(reservation: FileReservation): string {
+  if (!reservation.expiresAt) return "";
+  const remaining = new Date(reservation.expiresAt).getTime() - Date.now();
+  if (isNaN(remaining)) return "";
+  return remaining > 0 ? ` [expires in ${formatDuration(remaining)}]` : " [expired]";
+}
+
+// =============================================================================
+// Message Attachments
+// =============================================================================
+
+function optionalLine(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Turn tool-call input into typed attachments. Fields that don't belong to an
+ * attachment's type are dropped; missing required fields are an error.
+ */
+export function normalizeAttachments(
+  raw: unknown[]
+): { attachments: MessageAttachment[] } | { error: string } {
+  const attachments: MessageAttachment[] = [];
+  for (const [i, item] of raw.entries()) {
+    const a = (item ?? {}) as Record<string, unknown>;
+    const where = `attachments[${i}]`;
+    switch (a.type) {
+      case "file": {
+        if (typeof a.path !== "string" || !a.path) return { error: `${where}: file attachments need a path` };
+        const startLine = optionalLine(a.startLine);
+        const endLine = optionalLine(a.endLine);
+        if (startLine && endLine && endLine < startLine) return { error: `${where}: endLine is before startLine` };
+        attachments.push({
+          type: "file",
+          path: a.path,
+          startLine,
+          endLine,
+          note: typeof a.note === "string" && a.note ? a.note : undefined,
+        });
+        break;
+      }
+      case "diff":
+        if (typeof a.diff !== "string" || !a.diff.trim()) return { error: `${where}: diff attachments need a diff` };
+        attachments.push({ type: "diff", diff: a.diff, path: typeof a.path === "string" && a.path ? a.path : undefined });
+        break;
+      case "json":
+        if (a.data === undefined) return { error: `${where}: json attachments need data` };
+        attachments.push({ type: "json", data: a.data, label: typeof a.label === "string" && a.label ? a.label : undefined });
+        break;
+      case "task":
+        if (typeof a.taskId !== "string" || !a.taskId) return { error: `${where}: task attachments need a taskId` };
+        attachments.push({ type: "task", taskId: a.taskId, spec: typeof a.spec === "string" && a.spec ? a.spec : undefined });
+        break;
+      default:
+        return { error: `${where}: type must be one of ${ATTACHMENT_TYPES.join(", ")}` };
+    }
+  }
+  return { attachments };
+}
+
+/** Why these attachments can't be sent, or null if they're within the caps. */
+export function checkAttachmentLimits(attachments: MessageAttachment[]): string | null {
+  if (attachments.length > MAX_ATTACHMENTS) {
+    return `too many attachments (${attachments.length}, max ${MAX_ATTACHMENTS})`;
+  }
+  let total = 0;
+  for (const [i, a] of attachments.entries()) {
+    const size = Buffer.byteLength(JSON.stringify(a), "utf-8");
+    if (size > MAX_ATTACHMENT_BYTES) {
+      return `attachments[${i}] is ${Math.ceil(size / 1024)} KB (max ${MAX_ATTACHMENT_BYTES / 1024} KB) — reference the file instead`;
+    }
+    total += size;
+  }
+  if (total > MAX_ATTACHMENTS_TOTAL_BYTES) {
+    return `attachments total ${Math.ceil(total / 1024)} KB (max ${MAX_ATTACHMENTS_TOTAL_BYTES / 1024} KB)`;
+  }
+  return null;
+}
+
+/** One-line label: `src/a.ts:10-20`, `diff src/a.ts (+3 -1)`, `json: config`, `task task-3`. */
+export function summarizeAttachment(a: MessageAttachment): string {
+  switch (a.type) {
+    case "file": {
+      const range = a.startLine ? `:${a.startLine}${a.endLine && a.endLine !== a.startLine ? `-${a.endLine}` : ""}` : "";
+      return `${a.path}${range}${a.note ? ` — ${a.note}` : ""}`;
+    }
+    case "diff": {
+      const lines = a.diff.split("\n");
+      const added = lines.filter(l => l.startsWith("+") && !l.startsWith("+++")).length;
+      const removed = lines.filter(l => l.startsWith("-") && !l.startsWith("---")).length;
+      return `diff${a.path ? ` ${a.path}` : ""} (+${added} -${removed})`;
+    }
+    case "json":
+      return `json${a.label ? `: ${a.label}` : ""}`;
+    case "task":
+      return `task ${a.taskId}${a.spec ? ` (${a.spec})` : ""}`;
+  }
+}
+
+/** Markdown for the recipient's context: references inline, diff and JSON bodies fenced. */
+export function formatAttachmentsForAgent(attachments: MessageAttachment[]): string {
+  const parts: string[] = [];
+  for (const a of attachments) {
+    const label = `📎 ${summarizeAttachment(a)}`;
+    if (a.type === "diff") {
+      parts.push(`${label}\n\`\`\`diff\n${a.diff.replace(/\n+$/, "")}\n\`\`\``);
+    } else if (a.type === "json") {
+      parts.push(`${label}\n\`\`\`json\n${JSON.stringify(a.data, null, 2)}\n\`\`\``);
+    } else {
+      parts.push(label);
+    }
+  }
+  return parts.join("\n");
+}
+
+// =============================================================================
+// Echo Loop Detection
+// =============================================================================
+
+export interface ConversationTurn {
+  direction: "in" | "out";
+  text: string;
+  at: number;
+}
+
+export interface LoopThresholds {
+  windowMs: number;
+  /** Alternating round trips within the window that count as a loop (0 = no limit). */
+  maxRoundTrips: number;
+  /** Word-overlap ratio at which consecutive messages count as repeats (0 = off). */
+  similarity: number;
+}
+
+export type LoopReason = "acknowledgment" | "repetition" | "ping_pong";
+
+const ACK_WORDS = new Set([
+  "ok", "okay", "k", "thanks", "thank", "you", "thx", "ty", "got", "it", "noted", "ack", "acknowledged",
+  "sounds", "good", "great", "perfect", "awesome", "nice", "cool", "sure", "will", "do", "np", "no",
+  "problem", "welcome", "youre", "cheers", "yep", "yes", "roger", "agreed", "understood", "much", "again",
+  "all", "set", "done", "👍", "🙏", "✅",
+]);
+
+function words(text: string): string[] {
+  return text.toLowerCase().replace(/['’]/g, "").split(/[^\p{L}\p{N}\p{Extended_Pictographic}]+/u).filter(Boolean);
+}
+
+/** Short messages made only of thanks/ok/got-it style words. */
+export function isAcknowledgment(text: string): boolean {
+  const w = words(text);
+  return w.length > 0 && w.length <= 8 && w.every(word => ACK_WORDS.has(word));
+}
+
+/** Jaccard overlap of the two messages' word sets, 0-1. */
+export function textSimilarity(a: string, b: string): number {
+  const setA = new Set(words(a));
+  const setB = new Set(words(b));
+  if (setA.size === 0 || setB.size === 0) return 0;
+  let shared = 0;
+  for (const word of setA) if (setB.has(word)) shared++;
+  return shared / (setA.size + setB.size - shared);
+}
+
+/**
+ * Why the newest incoming turn looks like part of an echo loop, or null.
+ * `turns` holds one conversation in both directions; bursts from one side
+ * don't count, only alternating exchanges, repeats and thanks-for-thanks.
+ */
+export function detectEchoLoop(
+  turns: ConversationTurn[],
+  thresholds: LoopThresholds,
+  now: number = Date.now(),
+): LoopReason | null {
+  const recent = turns.filter(t => now - t.at <= thresholds.windowMs).sort((a, b) => a.at - b.at);
+  const last = recent[recent.length - 1];
+  if (!last || last.direction !== "in") return null;
+
+  const earlier = recent.slice(0, -1);
+  const prevOut = earlier.filter(t => t.direction === "out").pop();
+  const prevIn = earlier.filter(t => t.direction === "in").pop();
+
+  if (isAcknowledgment(last.text) && prevOut && isAcknowledgment(prevOut.text)) return "acknowledgment";
+
+  if (thresholds.similarity > 0 && words(last.text).length >= 3) {
+    for (const prev of [prevIn, prevOut]) {
+      if (prev && words(prev.text).length >= 3 && textSimilarity(last.text, prev.text) >= thresholds.similarity) {
+        return "repetition";
+      }
+    }
+  }
+
+  if (thresholds.maxRoundTrips > 0) {
+    let runs = 0;
+    let direction: ConversationTurn["direction"] | null = null;
+    for (const turn of recent) {
+      if (turn.direction !== direction) runs++;
+      direction = turn.direction;
+    }
+    if (Math.floor(runs / 2) >= thresholds.maxRoundTrips) return "ping_pong";
+  }
+
+  return null;
+}
+
+// =============================================================================
+// Outbound Budgets
+// =============================================================================
+
+const MINUTE_MS = 60_000;
+const HOUR_MS = 3_600_000;
+
+export function outboundCounts(
+  log: OutboundLog | undefined,
+  now: number = Date.now(),
+): { messagesLastMinute: number; broadcastsLastHour: number } {
+  return {
+    messagesLastMinute: log?.messages.filter(t => now - t < MINUTE_MS).length ?? 0,
+    broadcastsLastHour: log?.broadcasts.filter(t => now - t < HOUR_MS).length ?? 0,
+  };
+}
+
+/** Why this send would exceed the budget (with when to retry), or null if it fits. */
+export function checkOutboundBudget(
+  log: OutboundLog,
+  budget: OutboundBudget,
+  send: { broadcast: boolean; recipients: number; bytes: number },
+  now: number = Date.now(),
+): { error: "message_too_large" | "rate_limited"; reason: string } | null {
+  if (budget.maxMessageBytes > 0 && send.bytes > budget.maxMessageBytes) {
+    return {
+      error: "message_too_large",
+      reason: `message is ${send.bytes} bytes (limit ${budget.maxMessageBytes}); trim it or attach a file reference`,
+    };
+  }
+
+  // Time until the `expiring` oldest sends in the window have aged out
+  const retryIn = (times: number[], windowMs: number, expiring: number) => {
+    const recent = times.filter(t => now - t < windowMs).sort((a, b) => a - b);
+    return formatDuration(Math.max(1000, recent[expiring - 1] + windowMs - now));
+  };
+
+  const counts = outboundCounts(log, now);
+  if (send.broadcast) {
+    if (budget.broadcastsPerHour > 0 && counts.broadcastsLastHour >= budget.broadcastsPerHour) {
+      const wait = retryIn(log.broadcasts, HOUR_MS, counts.broadcastsLastHour - budget.broadcastsPerHour + 1);
+      return {
+        error: "rate_limited",
+        reason: `${counts.broadcastsLastHour} broadcast${counts.broadcastsLastHour === 1 ? "" : "s"} in the last hour (limit ${budget.broadcastsPerHour}); try again in ${wait}`,
+      };
+    }
+  } else if (budget.messagesPerMinute > 0 && counts.messagesLastMinute + send.recipients > budget.messagesPerMinute) {
+    if (send.recipients > budget.messagesPerMinute) {
+      return {
+        error: "rate_limited",
+        reason: `${send.recipients} recipients exceeds the limit of ${budget.messagesPerMinute} messages per minute`,
+      };
+    }
+    const wait = retryIn(log.messages, MINUTE_MS, counts.messagesLastMinute + send.recipients - budget.messagesPerMinute);
+    return {
+      error: "rate_limited",
+      reason: `${counts.messagesLastMinute} message${counts.messagesLastMinute === 1 ? "" : "s"} in the last minute (limit ${budget.messagesPerMinute}); try again in ${wait}`,
+    };
+  }
+  return null;
+}
+
+/** Record a send and drop entries older than any budget window. */
+export function recordOutbound(log: OutboundLog, broadcast: boolean, count: number, now: number = Date.now()): void {
+  if (broadcast) {
+    log.broadcasts.push(now);
+  } else {
+    for (let i = 0; i < count; i++) log.messages.push(now);
+  }
+  log.messages = log.messages.filter(t => now - t < MINUTE_MS);
+  log.broadcasts = log.broadcasts.filter(t => now - t < HOUR_MS);
+}
+
+// =============================================================================
+// Task Dependencies
+// =============================================================================
+
+export interface TaskNode {
+  id: string;
+  dependsOn: string[];
+}
+
+export interface DependencyIssue {
+  type: "dangling" | "cycle";
+  /** The task and its missing dependency, or the tasks around the cycle in order. */
+  taskIds: string[];
+  message: string;
+}
+
+/** Dependencies that name unknown tasks, and every cycle reachable by a back edge. */
+export function findDependencyIssues(tasks: TaskNode[]): DependencyIssue[] {
+  const issues: DependencyIssue[] = [];
+  const byId = new Map(tasks.map(t => [t.id, t]));
+
+  for (const task of tasks) {
+    for (const dep of task.dependsOn) {
+      if (!byId.has(dep)) {
+        issues.push({ type: "dangling", taskIds: [task.id, dep], message: `${task.id} depends on unknown task ${dep}` });
+      }
+    }
+  }
+
+  const state = new Map<string, "visiting" | "done">();
+  const stack: string[] = [];
+  const visit = (id: string) => {
+    state.set(id, "visiting");
+    stack.push(id);
+    for (const dep of byId.get(id)?.dependsOn ?? []) {
+      if (!byId.has(dep)) continue;
+      if (state.get(dep) === "visiting") {
+        const cycle = [...stack.slice(stack.indexOf(dep)), dep];
+        issues.push({ type: "cycle", taskIds: cycle.slice(0, -1), message: `dependency cycle: ${cycle.join(" → ")}` });
+      } else if (!state.has(dep)) {
+        visit(dep);
+      }
+    }
+    stack.pop();
+    state.set(id, "done");
+  };
+  for (const task of tasks) {
+    if (!state.has(task.id)) visit(task.id);
+  }
+  return issues;
+}
+
+/**
+ * Drop edges implied by others: if a depends on b and c, and c already
+ * depends (transitively) on b, a's edge to b is redundant. Expects an acyclic graph.
+ */
+export function reduceDependencies<T extends TaskNode>(tasks: T[]): T[] {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const reachable = new Map<string, Set<string>>();
+  const reach = (id: string): Set<string> => {
+    const cached = reachable.get(id);
+    if (cached) return cached;
+    const found = new Set<string>();
+    reachable.set(id, found);
+    for (const dep of byId.get(id)?.dependsOn ?? []) {
+      found.add(dep);
+      for (const further of reach(dep)) found.add(further);
+    }
+    return found;
+  };
+
+  return tasks.map(task => {
+    const deps = [...new Set(task.dependsOn)];
+    const kept = deps.filter(dep => !deps.some(other => other !== dep && reach(other).has(dep)));
+    return { ...task, dependsOn: kept };
+  });
+}
+
+/** A task counts as done once completed, unless review reopened it. */
+export function isTaskDone(completions: SpecCompletions, taskId: string): boolean {
+  const completion = completions[taskId];
+  return !!completion && !isCompletionReopened(completion);
+}
+
+/** Dependencies of `task` that are not done yet. */
+export function pendingDependencies(task: TaskNode, completions: SpecCompletions): string[] {
+  return task.dependsOn.filter(dep => !isTaskDone(completions, dep));
+}
+
+/** Tasks that are neither done nor claimed and whose dependencies are all done, in input order. */
+export function readyTaskIds(tasks: TaskNode[], completions: SpecCompletions, claims: SpecClaims): string[] {
+  return tasks
+    .filter(t => !isTaskDone(completions, t.id) && !claims[t.id] && pendingDependencies(t, completions).length === 0)
+    .map(t => t.id);
+}
@@ -2,8 +2,10 @@ import { randomUUID } from "node:crypto";
 import { matchesKey, type TUI } from "@mariozechner/pi-tui";
 import type { AgentMailMessage, Dirs, MessengerState } from "./lib.js";
 import { MAX_CHAT_HISTORY } from "./lib.js";
-import { sendMessageToAgent, getActiveAgents } from "./store.js";
-import { logFeedEvent } from "./feed.js";
+import { sendMessageToAgent, getActiveAgents, getChannel, getChannels, sendChannelMessage } from "./store.js";
+import { logFeedEvent, type FeedEvent } from "./feed.js";
+import { archiveMessage } from "./archive.js";
+import { executeForceRelease } from "./handlers.js";
 
 export interface ViewState {
   messageInput: string;
@@ -14,6 +16,13 @@ export interface ViewState {
   mentionCandidates: string[];
   mentionIndex: number;
   feedScrollOffset: number;
+  selectedAgent: string | null;
+  pendingForceRelease: string | null;
+  selectedMessageTs: string | null;
+  threadView: string | null;
+  /** Messages of the open thread, re-read only when the feed has moved on. */
+  threadCache: { feedTs: string | null; messages: AgentMailMessage[] } | null;
+  channelTab: string | null;
 }
 
 export function createViewState(): ViewState {
@@ -26,6 +35,12 @@ export function createViewState(): ViewState {
     mentionCandidates: [],
     mentionIndex: -1,
     feedScrollOffset: 0,
+    selectedAgent: null,
+    pendingForceRelease: null,
+    selectedMessageTs: null,
+    threadView: null,
+    threadCache: null,
+    channelTab: null,
   };
 }
 
@@ -113,7 +128,8 @@ function sendDirectMessage(
   try {
     const msg = sendMessageToAgent(state, dirs, target, text);
     addToChatHistory(state, target, msg);
-    logFeedEvent(cwd, state.agentName, "message", target, previewText(text));
+    archiveMessage(cwd, msg);
+    logFeedEvent(cwd, state.agentName, "message", target, previewText(text), msg.threadId);
     resetMessageInput(viewState);
     setNotification(viewState, tui, true, `Sent to ${target}`);
     tui.requestRender();
@@ -142,7 +158,7 @@ function sendBroadcastMessage(
   let sentCount = 0;
   for (const peer of peers) {
     try {
-      sendMessageToAgent(state, dirs, peer.name, text);
+      archiveMessage(cwd, sendMessageToAgent(state, dirs, peer.name, text));
       sentCount++;
     } catch {
       // Ignore per-recipient failures
@@ -162,6 +178,39 @@ function sendBroadcastMessage(
   tui.requestRender();
 }
 
+function sendToChannel(
+  state: MessengerState,
+  dirs: Dirs,
+  cwd: string,
+  name: string,
+  text: string,
+  tui: TUI,
+  viewState: ViewState,
+): void {
+  const channel = getChannel(dirs, name);
+  if (!channel || !channel.members.includes(state.agentName)) {
+    setNotification(viewState, tui, false, `Not a member of #${name}`);
+    tui.requestRender();
+    return;
+  }
+
+  try {
+    const { sent } = sendChannelMessage(state, dirs, channel, text);
+    if (sent.length === 0) {
+      setNotification(viewState, tui, false, `No other active members in #${name}`);
+      tui.requestRender();
+      return;
+    }
+    for (const msg of sent) archiveMessage(cwd, msg);
+    logFeedEvent(cwd, state.agentName, "message", `#${name}`, previewText(text));
+    resetMessageInput(viewState);
+    setNotification(viewState, tui, true, `Sent to #${name}`);
+  } catch (err) {
+    setNotification(viewState, tui, false, `Failed to send to #${name}: ${err instanceof Error ? err.message : "unknown error"}`);
+  }
+  tui.requestRender();
+}
+
 export function handleMessageInput(
   data: string,
   viewState: ViewState,
@@ -229,6 +278,11 @@ export function handleMessageInput(
       return;
     }
 
+    if (viewState.channelTab) {
+      sendToChannel(state, dirs, cwd, viewState.channelTab, raw, tui, viewState);
+      return;
+    }
+
     sendBroadcastMessage(state, dirs, cwd, raw, tui, viewState);
     return;
   }
@@ -250,3 +304,77 @@ export function handleMessageInput(
     tui.requestRender();
   }
 }
+
+export function cycleSelectedAgent(
+  viewState: ViewState,
+  state: MessengerState,
+  dirs: Dirs,
+  delta: number,
+): void {
+  const names = getActiveAgents(state, dirs).map(a => a.name);
+  viewState.pendingForceRelease = null;
+  if (names.length === 0) {
+    viewState.selectedAgent = null;
+    return;
+  }
+  const current = viewState.selectedAgent ? names.indexOf(viewState.selectedAgent) : -1;
+  const next = current === -1
+    ? (delta > 0 ? 0 : names.length - 1)
+    : (current + delta + names.length) % names.length;
+  viewState.selectedAgent = names[next];
+}
+
+/** First press arms the takeover (shown in the legend), the second confirms it. */
+export async function handleForceRelease(
+  viewState: ViewState,
+  state: MessengerState,
+  dirs: Dirs,
+  cwd: string,
+  tui: TUI,
+): Promise<void> {
+  const target = viewState.selectedAgent;
+  if (!target) {
+    setNotification(viewState, tui, false, "Select an agent with ←→ first");
+    tui.requestRender();
+    return;
+  }
+
+  if (viewState.pendingForceRelease !== target) {
+    viewState.pendingForceRelease = target;
+    tui.requestRender();
+    return;
+  }
+
+  viewState.pendingForceRelease = null;
+  const response = await executeForceRelease(state, dirs, cwd, target);
+  const error = (response.details as { error?: string }).error;
+  const text = response.content[0]?.text ?? "";
+  setNotification(viewState, tui, !error, error ? text.replace(/^Error: /, "") : `Force-released ${target}'s reservations`);
+  tui.requestRender();
+}
+
+/** Move the feed selection between threaded direct messages, newest first. */
+export function cycleSelectedMessage(viewState: ViewState, events: FeedEvent[], delta: number): void {
+  const selectable = events.filter(e => e.type === "message" && e.thread).reverse();
+  if (selectable.length === 0) {
+    viewState.selectedMessageTs = null;
+    return;
+  }
+  const current = selectable.findIndex(e => e.ts === viewState.selectedMessageTs);
+  const next = current === -1 ? 0 : (current + delta + selectable.length) % selectable.length;
+  viewState.selectedMessageTs = selectable[next].ts;
+}
+
+/** Channels shown as overlay tabs: the ones we're a member of. */
+export function memberChannels(state: MessengerState, dirs: Dirs): string[] {
+  return getChannels(dirs).filter(c => c.members.includes(state.agentName)).map(c => c.name);
+}
+
+/** Step through the All tab and one tab per joined channel. */
+export function cycleChannelTab(viewState: ViewState, channels: string[], delta: number): void {
+  const tabs: (string | null)[] = [null, ...channels];
+  const current = Math.max(0, tabs.indexOf(viewState.channelTab));
+  viewState.channelTab = tabs[(current + delta + tabs.length) % tabs.length];
+  viewState.selectedMessageTs = null;
+  viewState.feedScrollOffset = 0;
+}
@@ -7,6 +7,7 @@ import {
   computeStatus,
   STATUS_INDICATORS,
   agentHasTask,
+  type AgentMailMessage,
   type Dirs,
   type MessengerState,
 } from "./lib.js";
@@ -72,6 +73,7 @@ export function renderAgentsRow(
   state: MessengerState,
   dirs: Dirs,
   stuckThresholdMs: number,
+  selectedAgent: string | null = null,
 ): string {
   const allClaims = store.getClaims(dirs);
   const rowParts: string[] = [];
@@ -91,7 +93,8 @@ export function renderAgentsRow(
     );
     const indicator = STATUS_INDICATORS[computed.status];
     const idle = computed.idleFor ? ` ${computed.idleFor}` : "";
-    rowParts.push(`${indicator} ${coloredAgentName(agent.name)}${idle}`);
+    const entry = `${indicator} ${coloredAgentName(agent.name)}${idle}`;
+    rowParts.push(agent.name === selectedAgent ? `[${entry}]` : entry);
     seen.add(agent.name);
   }
 
@@ -100,7 +103,13 @@ export function renderAgentsRow(
 
 const DIM_EVENTS = new Set(["join", "leave", "reserve", "release"]);
 
-export function renderFeedSection(theme: Theme, events: FeedEvent[], width: number, lastSeenTs: string | null): string[] {
+export function renderFeedSection(
+  theme: Theme,
+  events: FeedEvent[],
+  width: number,
+  lastSeenTs: string | null,
+  selectedTs: string | null = null,
+): string[] {
   if (events.length === 0) return [];
   const lines: string[] = [];
   let lastWasMessage = false;
@@ -113,7 +122,10 @@ export function renderFeedSection(theme: Theme, events: FeedEvent[], width: numb
       lines.push(theme.fg("dim", "  ·"));
     }
 
-    if (isMessage) {
+    if (isMessage && event.ts === selectedTs) {
+      const messageLines = renderMessageLines(theme, event, width - 2);
+      lines.push(...messageLines.map((l, i) => (i === 0 ? theme.fg("accent", "▸ ") : "  ") + l));
+    } else if (isMessage) {
       lines.push(...renderMessageLines(theme, event, width));
     } else {
       const formatted = sharedFormatFeedLine(event);
@@ -125,13 +137,42 @@ export function renderFeedSection(theme: Theme, events: FeedEvent[], width: numb
   return lines;
 }
 
+export function renderThreadSection(theme: Theme, messages: AgentMailMessage[], width: number): string[] {
+  if (messages.length === 0) return [theme.fg("dim", "(thread not found)")];
+
+  const threadId = messages[0].threadId ?? messages[0].id;
+  const participants = [...new Set(messages.flatMap(m => [m.from, m.to]))];
+  const lines = [truncateToWidth(theme.fg("accent", `Thread ${threadId.slice(0, 8)} · ${participants.join(" ↔ ")}`), width)];
+  for (const msg of messages) {
+    const event: FeedEvent = {
+      ts: msg.timestamp,
+      agent: msg.from,
+      type: "message",
+      target: msg.to,
+      preview: msg.text.replace(/\s*\n\s*/g, " "),
+    };
+    lines.push(...renderMessageLines(theme, event, width));
+  }
+  return lines;
+}
+
+export function renderChannelTabs(theme: Theme, channels: string[], selected: string | null, width: number): string {
+  const tabs = [null, ...channels].map(name => {
+    const label = name ? `#${name}` : "All";
+    return name === selected ? theme.fg("accent", `[${label}]`) : theme.fg("dim", ` ${label} `);
+  });
+  return truncateToWidth(tabs.join(" "), width);
+}
+
 export function renderLegend(
   theme: Theme,
   width: number,
   viewState: ViewState,
+  canForceRelease: boolean = false,
+  hasChannels: boolean = false,
 ): string {
   if (viewState.inputMode === "message") {
-    const text = renderMessageBar(viewState.messageInput);
+    const text = renderMessageBar(viewState.messageInput, viewState.channelTab);
     return truncateToWidth(theme.fg("accent", text), width);
   }
 
@@ -142,12 +183,24 @@ export function renderLegend(
     viewState.notification = null;
   }
 
-  return truncateToWidth(theme.fg("dim", "m:Chat  ↑↓:Scroll  Esc:Close"), width);
+  if (viewState.pendingForceRelease) {
+    const prompt = `Force-release ${viewState.pendingForceRelease}'s reservations?  x:Confirm  Esc:Cancel`;
+    return truncateToWidth(theme.fg("warning", prompt), width);
+  }
+
+  if (viewState.threadView) {
+    return truncateToWidth(theme.fg("dim", "Thread  m:Chat  ↑↓:Scroll  Esc:Back"), width);
+  }
+
+  const release = canForceRelease && viewState.selectedAgent ? "  x:Force-release" : "";
+  const openThread = viewState.selectedMessageTs ? "  Enter:Thread" : "";
+  const channels = hasChannels ? "  [ ]:Channel" : "";
+  return truncateToWidth(theme.fg("dim", `m:Chat  Tab:Messages${openThread}${channels}  ←→:Select${release}  ↑↓:Scroll  Esc:Close`), width);
 }
 
-function renderMessageBar(input: string): string {
+function renderMessageBar(input: string, channel: string | null): string {
   const isAt = input.startsWith("@");
-  const hint = isAt ? "DM" : "broadcast";
+  const hint = isAt ? "DM" : channel ? `#${channel}` : "broadcast";
   const tabHint = isAt && !input.includes(" ") ? "  [Tab] Complete" : "";
   return `${hint}: ${input}█  [Enter] Send${tabHint}  [Esc] Cancel`;
 }
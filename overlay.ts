@@ -9,21 +9,30 @@ import {
   extractFolder,
   type MessengerState,
   type Dirs,
+  type AgentMailMessage,
 } from "./lib.js";
 import { readFeedEvents, type FeedEvent, type FeedEventType } from "./feed.js";
 import {
   renderStatusBar,
   renderAgentsRow,
   renderFeedSection,
+  renderThreadSection,
+  renderChannelTabs,
   renderLegend,
 } from "./overlay-render.js";
 import {
   createViewState,
   handleMessageInput,
   setNotification,
+  cycleSelectedAgent,
+  cycleSelectedMessage,
+  handleForceRelease,
+  memberChannels,
+  cycleChannelTab,
   type ViewState,
 } from "./overlay-actions.js";
 import { loadConfig } from "./config.js";
+import { getArchivedThread } from "./archive.js";
 import * as store from "./store.js";
 
 export interface OverlayCallbacks {
@@ -73,11 +82,63 @@ export class MessengerOverlay implements Component, Focusable {
       return;
     }
 
+    if (this.viewState.pendingForceRelease) {
+      if (matchesKey(data, "x")) {
+        void handleForceRelease(this.viewState, this.state, this.dirs, this.cwd, this.tui);
+        return;
+      }
+      // Any other key cancels the armed takeover
+      this.viewState.pendingForceRelease = null;
+      this.tui.requestRender();
+      if (matchesKey(data, "escape")) return;
+    }
+
     if (matchesKey(data, "escape")) {
+      if (this.viewState.threadView) {
+        this.viewState.threadView = null;
+        this.viewState.threadCache = null;
+        this.viewState.feedScrollOffset = 0;
+        this.tui.requestRender();
+        return;
+      }
       this.done();
       return;
     }
 
+    if (!this.viewState.threadView && (matchesKey(data, "tab") || matchesKey(data, "shift+tab"))) {
+      cycleSelectedMessage(this.viewState, readFeedEvents(this.cwd, 50), matchesKey(data, "shift+tab") ? -1 : 1);
+      this.tui.requestRender();
+      return;
+    }
+
+    if (matchesKey(data, "enter") && !this.viewState.threadView && this.viewState.selectedMessageTs) {
+      const selected = readFeedEvents(this.cwd, 50).find(e => e.ts === this.viewState.selectedMessageTs);
+      if (selected?.thread) {
+        this.viewState.threadView = selected.thread;
+        this.viewState.threadCache = null;
+        this.viewState.feedScrollOffset = 0;
+        this.tui.requestRender();
+      }
+      return;
+    }
+
+    if ((data === "[" || data === "]") && !this.viewState.threadView) {
+      cycleChannelTab(this.viewState, memberChannels(this.state, this.dirs), data === "]" ? 1 : -1);
+      this.tui.requestRender();
+      return;
+    }
+
+    if (matchesKey(data, "left") || matchesKey(data, "right")) {
+      cycleSelectedAgent(this.viewState, this.state, this.dirs, matchesKey(data, "left") ? -1 : 1);
+      this.tui.requestRender();
+      return;
+    }
+
+    if (matchesKey(data, "x") && this.state.isHuman) {
+      void handleForceRelease(this.viewState, this.state, this.dirs, this.cwd, this.tui);
+      return;
+    }
+
     if (data === "@" || matchesKey(data, "m")) {
       this.viewState.inputMode = "message";
       this.viewState.messageInput = data === "@" ? "@" : "";
@@ -155,15 +216,30 @@ export class MessengerOverlay implements Component, Focusable {
     const contentHeight = Math.max(8, termRows - chromeLines);
 
     // Agents row
-    const agentsLine = renderAgentsRow(sectionW, this.state, this.dirs, this.stuckThresholdMs);
+    const agentsLine = renderAgentsRow(sectionW, this.state, this.dirs, this.stuckThresholdMs, this.viewState.selectedAgent);
     const contentLines: string[] = [];
     contentLines.push(agentsLine);
+
+    // Channel tabs, once we've joined a channel
+    const channels = memberChannels(this.state, this.dirs);
+    if (this.viewState.channelTab && !channels.includes(this.viewState.channelTab)) {
+      this.viewState.channelTab = null;
+    }
+    if (channels.length > 0) {
+      contentLines.push(renderChannelTabs(this.theme, channels, this.viewState.channelTab, sectionW));
+    }
     contentLines.push(sectionSeparator);
 
     // Feed section fills remaining space
-    const feedHeight = contentHeight - 2; // subtract agents row + separator
-    const displayEvents = allEvents.slice(-Math.max(feedHeight * 2, 50));
-    let feedLines = renderFeedSection(this.theme, displayEvents, sectionW, prevTs);
+    const feedHeight = contentHeight - contentLines.length; // subtract agents row, tabs + separator
+    const channelTarget = this.viewState.channelTab ? `#${this.viewState.channelTab}` : null;
+    const displayEvents = (channelTarget
+      ? allEvents.filter(e => e.type === "message" && e.target === channelTarget)
+      : allEvents
+    ).slice(-Math.max(feedHeight * 2, 50));
+    let feedLines = this.viewState.threadView
+      ? renderThreadSection(this.theme, this.threadMessages(this.viewState.threadView, allEvents), sectionW)
+      : renderFeedSection(this.theme, displayEvents, sectionW, prevTs, this.viewState.selectedMessageTs);
 
     if (feedLines.length === 0) {
       feedLines.push(this.theme.fg("dim", "(no activity yet)"));
@@ -191,7 +267,7 @@ export class MessengerOverlay implements Component, Focusable {
 
     // Legend bar
     lines.push(border("├" + "─".repeat(innerW) + "┤"));
-    lines.push(row(renderLegend(this.theme, sectionW, this.viewState)));
+    lines.push(row(renderLegend(this.theme, sectionW, this.viewState, this.state.isHuman, channels.length > 0)));
     lines.push(border("╰" + "─".repeat(innerW) + "╯"));
 
     if (allEvents.length > 0) {
@@ -237,6 +313,15 @@ export class MessengerOverlay implements Component, Focusable {
     return `${label} ─ ${folder}`;
   }
 
+  private threadMessages(threadId: string, events: FeedEvent[]): AgentMailMessage[] {
+    const feedTs = events.length > 0 ? events[events.length - 1].ts : null;
+    const cache = this.viewState.threadCache;
+    if (cache && cache.feedTs === feedTs) return cache.messages;
+    const messages = getArchivedThread(this.cwd, threadId);
+    this.viewState.threadCache = { feedTs, messages };
+    return messages;
+  }
+
   invalidate(): void {
     // No cached state
   }
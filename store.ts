@@ -4,13 +4,14 @@
 
 import * as fs from "node:fs";
 import { randomUUID } from "node:crypto";
-import { join, resolve } from "node:path";
+import { join, resolve, dirname, basename } from "node:path";
 import { execSync } from "node:child_process";
 import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
 import {
   type AgentRegistration,
   type AgentMailMessage,
   type ReservationConflict,
+  type FileReservation,
   type MessengerState,
   type Dirs,
   type ClaimEntry,
@@ -20,12 +21,30 @@ import {
   type AllClaims,
   type AllCompletions,
   type NameThemeConfig,
+  type WaitEntry,
+  type MessageStatus,
+  type MessageReceipt,
+  type SentMessage,
+  type MessagePriority,
+  type MessageAttachment,
+  type Channel,
+  type ReviewRecord,
   MAX_WATCHER_RETRIES,
+  MAX_SENT_TRACKED,
   isProcessAlive,
   generateMemorableName,
   isValidAgentName,
   pathMatchesReservation,
+  reservationsOverlap,
+  isGlobPattern,
+  isReservationExpired,
+  reservationBlocksEdits,
+  displayReservationPath,
+  checkAttachmentLimits,
+  normalizeChannelName,
+  isCompletionReopened,
 } from "./lib.js";
+import { appendTaskProgress, crewTaskForClaim, updateTask } from "./crew.js";
 
 // =============================================================================
 // Agents Cache (Fix 1: Reduce disk I/O)
@@ -74,6 +93,49 @@ function normalizeCwd(cwd: string): string {
   }
 }
 
+function realpathOfNearestAncestor(absPath: string): string {
+  const suffix: string[] = [];
+  let current = absPath;
+  for (;;) {
+    try {
+      const real = fs.realpathSync.native(current);
+      return suffix.length > 0 ? join(real, ...suffix.reverse()) : real;
+    } catch {
+      const parent = dirname(current);
+      if (parent === current) return absPath;
+      suffix.push(basename(current));
+      current = parent;
+    }
+  }
+}
+
+/**
+ * Canonicalize a path or reservation pattern against `cwd`: make it absolute
+ * and resolve symlinks in its literal (non-glob) leading segments, the same
+ * way registrations canonicalize their cwd. Paths that don't exist yet are
+ * resolved through their nearest existing ancestor.
+ */
+export function canonicalizePath(filePath: string, cwd: string): string {
+  const trailingSlash = filePath.length > 1 && filePath.endsWith("/");
+  const abs = resolve(normalizeCwd(cwd), filePath);
+  const segments = abs.split("/");
+  const firstGlob = segments.findIndex(seg => isGlobPattern(seg));
+  const literal = firstGlob === -1 ? abs : segments.slice(0, firstGlob).join("/") || "/";
+  const rest = firstGlob === -1 ? [] : segments.slice(firstGlob);
+
+  let canonical = realpathOfNearestAncestor(literal);
+  if (rest.length > 0) canonical = join(canonical, ...rest);
+  return trailingSlash && !canonical.endsWith("/") ? canonical + "/" : canonical;
+}
+
+export function canonicalizeReservation(reservation: FileReservation, cwd: string): FileReservation {
+  const canonical: FileReservation = { ...reservation, pattern: canonicalizePath(reservation.pattern, cwd) };
+  if (reservation.exclude) {
+    canonical.exclude = reservation.exclude.map(ex => canonicalizePath(ex, cwd));
+  }
+  return canonical;
+}
+
 function getGitBranch(cwd: string): string | undefined {
   try {
     const result = execSync('git branch --show-current', {
@@ -164,41 +226,39 @@ export function getRegistrationPath(state: MessengerState, dirs: Dirs): string {
   return join(dirs.registry, `${state.agentName}.json`);
 }
 
-export function getActiveAgents(state: MessengerState, dirs: Dirs): AgentRegistration[] {
-  const now = Date.now();
-  const excludeName = state.agentName;
-  const myCwd = normalizeCwd(process.cwd());
-  const scopeToFolder = state.scopeToFolder;
-
-  // Cache key includes scopeToFolder and cwd for proper cache invalidation
-  const cacheKey = scopeToFolder ? `${excludeName}:${myCwd}` : excludeName;
-
-  // Return cached if valid (Fix 1)
-  if (
-    agentsCache &&
-    agentsCache.registryPath === dirs.registry &&
-    now - agentsCache.timestamp < AGENTS_CACHE_TTL_MS
-  ) {
-    // Check if we have a cached filtered result for this cache key
-    const cachedFiltered = agentsCache.filtered.get(cacheKey);
-    if (cachedFiltered) return cachedFiltered;
-
-    // Create and cache filtered result
-    let filtered = agentsCache.allAgents.filter(a => a.name !== excludeName);
-    if (scopeToFolder) {
-      filtered = filtered.filter(a => a.cwd === myCwd);
+/**
+ * Poll for the registration of an agent spawned at `since` (ms), e.g. a crew
+ * worker. Resolves null on timeout or abort.
+ */
+export async function waitForRegistration(
+  dirs: Dirs,
+  name: string,
+  since: number,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<AgentRegistration | null> {
+  const deadline = Date.now() + timeoutMs;
+  const regPath = join(dirs.registry, `${name}.json`);
+  while (Date.now() < deadline && !signal?.aborted) {
+    try {
+      const reg: AgentRegistration = JSON.parse(fs.readFileSync(regPath, "utf-8"));
+      if (Date.parse(reg.startedAt) >= since - 1000 && isProcessAlive(reg.pid)) return reg;
+    } catch {
+      // Not registered yet
     }
-    agentsCache.filtered.set(cacheKey, filtered);
-    return filtered;
+    await new Promise(resolve => setTimeout(resolve, 250));
   }
+  return null;
+}
 
-  // Read from disk
+/**
+ * Read every live registration from disk, deleting the files of dead processes.
+ * A dead holder's reservations are gone with its file, so its wait queue is
+ * processed on the way out.
+ */
+function readRegistrations(dirs: Dirs): AgentRegistration[] {
   const allAgents: AgentRegistration[] = [];
-
-  if (!fs.existsSync(dirs.registry)) {
-    agentsCache = { allAgents, filtered: new Map(), timestamp: now, registryPath: dirs.registry };
-    return allAgents;
-  }
+  if (!fs.existsSync(dirs.registry)) return allAgents;
 
   let files: string[];
   try {
@@ -217,6 +277,9 @@ export function getActiveAgents(state: MessengerState, dirs: Dirs): AgentRegistr
       if (!isProcessAlive(reg.pid)) {
         try {
           fs.unlinkSync(join(dirs.registry, file));
+          if (reg.reservations?.length) {
+            processWaitQueue(dirs, reg.name).catch(() => {});
+          }
         } catch {
           // Ignore cleanup errors
         }
@@ -239,6 +302,39 @@ export function getActiveAgents(state: MessengerState, dirs: Dirs): AgentRegistr
     }
   }
 
+  return allAgents;
+}
+
+export function getActiveAgents(state: MessengerState, dirs: Dirs): AgentRegistration[] {
+  const now = Date.now();
+  const excludeName = state.agentName;
+  const myCwd = normalizeCwd(process.cwd());
+  const scopeToFolder = state.scopeToFolder;
+
+  // Cache key includes scopeToFolder and cwd for proper cache invalidation
+  const cacheKey = scopeToFolder ? `${excludeName}:${myCwd}` : excludeName;
+
+  // Return cached if valid (Fix 1)
+  if (
+    agentsCache &&
+    agentsCache.registryPath === dirs.registry &&
+    now - agentsCache.timestamp < AGENTS_CACHE_TTL_MS
+  ) {
+    // Check if we have a cached filtered result for this cache key
+    const cachedFiltered = agentsCache.filtered.get(cacheKey);
+    if (cachedFiltered) return cachedFiltered;
+
+    // Create and cache filtered result
+    let filtered = agentsCache.allAgents.filter(a => a.name !== excludeName);
+    if (scopeToFolder) {
+      filtered = filtered.filter(a => a.cwd === myCwd);
+    }
+    agentsCache.filtered.set(cacheKey, filtered);
+    return filtered;
+  }
+
+  const allAgents = readRegistrations(dirs);
+
   // Cache the full list and create filtered result
   let filtered = allAgents.filter(a => a.name !== excludeName);
   if (scopeToFolder) {
@@ -381,6 +477,10 @@ export function register(state: MessengerState, dirs: Dirs, ctx: ExtensionContex
       state.gitBranch = gitBranch;
       state.activity.lastActivityAt = now;
       invalidateAgentsCache();
+      if (isExplicitName) {
+        rememberIdentity(dirs, state.agentName).catch(() => {});
+        deliverOfflineMail(dirs, state.agentName);
+      }
       return true;
     }
 
@@ -435,6 +535,7 @@ export function updateRegistration(state: MessengerState, dirs: Dirs, ctx: Exten
     reg.session = { ...state.session };
     reg.activity = { ...state.activity };
     reg.statusMessage = state.statusMessage;
+    reg.outbound = state.outbound;
     fs.writeFileSync(regPath, JSON.stringify(reg, null, 2));
   } catch {
     // Ignore errors
@@ -455,6 +556,7 @@ export function flushActivityToRegistry(state: MessengerState, dirs: Dirs, ctx:
     reg.session = { ...state.session };
     reg.activity = { ...state.activity };
     reg.statusMessage = state.statusMessage;
+    reg.outbound = state.outbound;
     fs.writeFileSync(regPath, JSON.stringify(reg, null, 2));
   } catch {
     // Ignore errors
@@ -605,32 +707,164 @@ export function renameAgent(
   return { success: true, oldName, newName };
 }
 
+/**
+ * Reservations from other agents that cover `filePath`. Both sides are compared
+ * as canonical absolute paths: the file against `cwd`, each reservation against
+ * its holder's cwd (older registrations may still store relative patterns).
+ */
 export function getConflictsWithOtherAgents(
   filePath: string,
   state: MessengerState,
-  dirs: Dirs
+  dirs: Dirs,
+  cwd: string = process.cwd()
 ): ReservationConflict[] {
-  const conflicts: ReservationConflict[] = [];
-  const agents = getActiveAgents(state, dirs);
+  return findReservationConflicts(canonicalizePath(filePath, cwd), getActiveAgents(state, dirs));
+}
 
+function findReservationConflicts(canonicalFile: string, agents: AgentRegistration[]): ReservationConflict[] {
+  const conflicts: ReservationConflict[] = [];
   for (const agent of agents) {
     if (!agent.reservations) continue;
     for (const res of agent.reservations) {
-      if (pathMatchesReservation(filePath, res.pattern)) {
+      if (isReservationExpired(res)) continue;
+      const canonical = canonicalizeReservation(res, agent.cwd);
+      // Glob and `dir/` targets (e.g. from bash commands) conflict on any overlap
+      const matches = isGlobPattern(canonicalFile) || canonicalFile.endsWith("/")
+        ? reservationsOverlap({ pattern: canonicalFile, since: "" }, canonical)
+        : pathMatchesReservation(canonicalFile, canonical.pattern, canonical.exclude);
+      if (matches) {
         conflicts.push({
-          path: filePath,
+          path: canonicalFile,
           agent: agent.name,
           pattern: res.pattern,
+          mode: res.mode ?? "exclusive",
           reason: res.reason,
           registration: agent
         });
       }
     }
   }
-
   return conflicts;
 }
 
+/**
+ * Find reservations held by other agents that intersect any of the given
+ * (already canonical) ones. `path` on each result is our own pattern.
+ */
+export function getReservationOverlaps(
+  reservations: FileReservation[],
+  state: MessengerState,
+  dirs: Dirs
+): ReservationConflict[] {
+  const overlaps: ReservationConflict[] = [];
+  const agents = getActiveAgents(state, dirs);
+
+  for (const mine of reservations) {
+    for (const agent of agents) {
+      if (!agent.reservations) continue;
+      for (const res of agent.reservations) {
+        if (isReservationExpired(res)) continue;
+        if (reservationsOverlap(mine, canonicalizeReservation(res, agent.cwd))) {
+          overlaps.push({
+            path: mine.pattern,
+            agent: agent.name,
+            pattern: res.pattern,
+            mode: res.mode ?? "exclusive",
+            reason: res.reason,
+            registration: agent
+          });
+        }
+      }
+    }
+  }
+
+  return overlaps;
+}
+
+// =============================================================================
+// Git Preflight
+// =============================================================================
+
+const gitRootCache = new Map<string, string | null>();
+
+function getGitRoot(cwd: string): string | null {
+  const cached = gitRootCache.get(cwd);
+  if (cached !== undefined) return cached;
+
+  let root: string | null = null;
+  try {
+    const output = execSync('git rev-parse --show-toplevel', {
+      cwd,
+      encoding: 'utf-8',
+      timeout: 2000,
+      stdio: ['pipe', 'pipe', 'pipe']
+    }).trim();
+    root = output ? normalizeCwd(output) : null;
+  } catch {
+    // Not a git work tree
+  }
+  gitRootCache.set(cwd, root);
+  return root;
+}
+
+function gitLines(root: string, command: string): string[] | null {
+  try {
+    const output = execSync(command, {
+      cwd: root,
+      encoding: 'utf-8',
+      timeout: 2000,
+      stdio: ['pipe', 'pipe', 'pipe']
+    });
+    return output.split("\n").filter(Boolean);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Modified, staged and untracked (not ignored) files. Before the first commit
+ * there is no HEAD to diff against, so every tracked file counts as uncommitted.
+ */
+function getUncommittedFiles(root: string): Set<string> {
+  const hasHead = gitLines(root, 'git rev-parse --verify --quiet HEAD') !== null;
+  const changed = gitLines(root, hasHead ? 'git diff --name-only HEAD' : 'git ls-files --cached') ?? [];
+  const untracked = gitLines(root, 'git ls-files --others --exclude-standard') ?? [];
+  return new Set([...changed, ...untracked].map(f => join(root, f)));
+}
+
+export interface PeerModification {
+  path: string;
+  agent: string;
+  registration: AgentRegistration;
+}
+
+/**
+ * Active peers in the same git work tree that list `filePath` in their
+ * published `filesModified`, while the file still has uncommitted changes.
+ * Git is only consulted once some peer has touched the file.
+ */
+export function getPeerModifications(
+  filePath: string,
+  state: MessengerState,
+  dirs: Dirs,
+  cwd: string = process.cwd()
+): PeerModification[] {
+  const root = getGitRoot(normalizeCwd(cwd));
+  if (!root) return [];
+
+  const canonicalFile = canonicalizePath(filePath, cwd);
+  const matches: PeerModification[] = [];
+  for (const agent of getActiveAgents(state, dirs)) {
+    const files = agent.session?.filesModified ?? [];
+    if (!files.some(f => canonicalizePath(f, agent.cwd) === canonicalFile)) continue;
+    if (getGitRoot(agent.cwd) !== root) continue;
+    matches.push({ path: canonicalFile, agent: agent.name, registration: agent });
+  }
+
+  if (matches.length === 0 || !getUncommittedFiles(root).has(canonicalFile)) return [];
+  return matches;
+}
+
 // =============================================================================
 // Swarm Coordination
 // =============================================================================
@@ -680,7 +914,7 @@ function writeCompletionsSync(dirs: Dirs, completions: AllCompletions): void {
   fs.renameSync(temp, target);
 }
 
-function isClaimStale(claim: ClaimEntry, dirs: Dirs): boolean {
+function isClaimStale(claim: Pick<ClaimEntry, "agent" | "sessionId" | "pid">, dirs: Dirs): boolean {
   if (!isProcessAlive(claim.pid)) return true;
   const regPath = join(dirs.registry, `${claim.agent}.json`);
   if (!fs.existsSync(regPath)) return true;
@@ -694,6 +928,15 @@ function isClaimStale(claim: ClaimEntry, dirs: Dirs): boolean {
   return false;
 }
 
+/**
+ * Append to a crew task's progress log. Crew tasks live in the project, so
+ * this only applies when `spec` is the crew plan of the current cwd.
+ */
+function logTaskProgress(spec: string, taskId: string, agent: string, text: string): void {
+  const cwd = process.cwd();
+  if (crewTaskForClaim(cwd, spec, taskId)) appendTaskProgress(cwd, taskId, agent, text);
+}
+
 function cleanupStaleClaims(claims: AllClaims, dirs: Dirs): number {
   let removed = 0;
   for (const [spec, tasks] of Object.entries(claims)) {
@@ -701,6 +944,11 @@ function cleanupStaleClaims(claims: AllClaims, dirs: Dirs): number {
       if (isClaimStale(claim, dirs)) {
         delete tasks[taskId];
         removed++;
+        const task = crewTaskForClaim(process.cwd(), spec, taskId);
+        if (task) {
+          appendTaskProgress(process.cwd(), taskId, claim.agent, "Claim dropped: the agent is no longer running.");
+          if (task.status === "in_progress") updateTask(process.cwd(), taskId, { status: "todo", assignee: undefined });
+        }
       }
     }
     if (Object.keys(tasks).length === 0) {
@@ -821,6 +1069,7 @@ export async function claimTask(
     };
     claims[specPath][taskId] = newClaim;
     writeClaimsSync(dirs, claims);
+    logTaskProgress(specPath, taskId, agent, reason ? `Claimed: ${reason}` : "Claimed.");
     return { success: true, claimedAt: newClaim.claimedAt };
   });
 }
@@ -862,6 +1111,7 @@ export async function unclaimTask(
       delete claims[specPath];
     }
     writeClaimsSync(dirs, claims);
+    logTaskProgress(specPath, taskId, agent, "Released the claim.");
     return { success: true };
   });
 }
@@ -895,7 +1145,7 @@ export async function completeTask(
     const removed = cleanupStaleClaims(claims, dirs);
 
     const existingCompletion = completions[specPath]?.[taskId];
-    if (existingCompletion) {
+    if (existingCompletion && !isCompletionReopened(existingCompletion)) {
       if (removed > 0) writeClaimsSync(dirs, claims);
       return { success: false, error: "already_completed", completion: existingCompletion };
     }
@@ -927,10 +1177,47 @@ export async function completeTask(
     // recorded (the important part). The stale claim will be cleaned up eventually.
     writeCompletionsSync(dirs, completions);
     writeClaimsSync(dirs, claims);
+    logTaskProgress(specPath, taskId, agent, notes ? `Completed: ${notes}` : "Completed.");
     return { success: true, completedAt: completion.completedAt };
   });
 }
 
+/** Attach a review verdict to a task's completion record. Null if the task isn't completed. */
+export async function recordReview(
+  dirs: Dirs,
+  specPath: string,
+  taskId: string,
+  review: ReviewRecord
+): Promise<CompletionEntry | null> {
+  return withSwarmLock(dirs.base, () => {
+    const completions = readCompletionsSync(dirs);
+    const completion = completions[specPath]?.[taskId];
+    if (!completion) return null;
+    completion.review = review;
+    writeCompletionsSync(dirs, completions);
+    return completion;
+  });
+}
+
+/**
+ * Drop all claims and completions recorded for a spec. Used when a crew plan
+ * is replaced, so the new tasks don't inherit state from reused IDs.
+ */
+export async function clearSpecProgress(dirs: Dirs, specPath: string): Promise<void> {
+  await withSwarmLock(dirs.base, () => {
+    const claims = readClaimsSync(dirs);
+    const completions = readCompletionsSync(dirs);
+    if (claims[specPath]) {
+      delete claims[specPath];
+      writeClaimsSync(dirs, claims);
+    }
+    if (completions[specPath]) {
+      delete completions[specPath];
+      writeCompletionsSync(dirs, completions);
+    }
+  });
+}
+
 // =============================================================================
 // Messaging Operations
 // =============================================================================
@@ -970,7 +1257,14 @@ export function processAllPendingMessages(
       try {
         const content = fs.readFileSync(msgPath, "utf-8");
         const msg: AgentMailMessage = JSON.parse(content);
-        deliverFn(msg);
+        if (msg.receipt) {
+          applyReceipt(state, msg.receipt);
+        } else if (resolveReplyWaiter(msg)) {
+          sendReceipt(state, dirs, msg, "delivered");
+        } else {
+          deliverFn(msg);
+          sendReceipt(state, dirs, msg, "delivered");
+        }
         fs.unlinkSync(msgPath);
       } catch {
         // On any failure (read, parse, deliver), delete to avoid infinite retry loops
@@ -993,32 +1287,602 @@ export function processAllPendingMessages(
   }
 }
 
-export function sendMessageToAgent(
+function buildMessage(
   state: MessengerState,
   dirs: Dirs,
   to: string,
   text: string,
-  replyTo?: string
+  parent?: AgentMailMessage | null,
+  priority?: MessagePriority,
+  attachments?: MessageAttachment[],
+  question: boolean = false
 ): AgentMailMessage {
-  const targetInbox = join(dirs.inbox, to);
-  ensureDirSync(targetInbox);
-
+  if (attachments && attachments.length > 0) {
+    const limitError = checkAttachmentLimits(attachments);
+    if (limitError) throw new Error(limitError);
+  }
+  const id = randomUUID();
   const msg: AgentMailMessage = {
-    id: randomUUID(),
+    id,
     from: state.agentName,
     to,
     text,
     timestamp: new Date().toISOString(),
-    replyTo: replyTo ?? null
+    replyTo: parent?.id ?? null,
+    threadId: parent?.threadId ?? parent?.id ?? id,
   };
+  if (priority && priority !== "normal") msg.priority = priority;
+  if (attachments && attachments.length > 0) msg.attachments = attachments;
+  if (question) msg.question = true;
+  return msg;
+}
+
+export function sendMessageToAgent(
+  state: MessengerState,
+  dirs: Dirs,
+  to: string,
+  text: string,
+  parent?: AgentMailMessage | null,
+  priority?: MessagePriority,
+  attachments?: MessageAttachment[],
+  question: boolean = false
+): AgentMailMessage {
+  const msg = buildMessage(state, dirs, to, text, parent, priority, attachments, question);
+  writeInboxMessage(dirs, msg);
+  trackSentMessage(state, msg);
+  return msg;
+}
 
+function writeMessageFile(dir: string, msg: AgentMailMessage): void {
+  ensureDirSync(dir);
   const random = Math.random().toString(36).substring(2, 8);
-  const msgFile = join(targetInbox, `${Date.now()}-${random}.json`);
+  const msgFile = join(dir, `${Date.now()}-${random}.json`);
   fs.writeFileSync(msgFile, JSON.stringify(msg, null, 2));
+}
+
+function writeInboxMessage(dirs: Dirs, msg: AgentMailMessage): void {
+  writeMessageFile(join(dirs.inbox, msg.to), msg);
+}
+
+// =============================================================================
+// Offline Mailbox
+// =============================================================================
+
+// Agents started with an explicit PI_AGENT_NAME keep their identity across
+// sessions, so messages to them can wait in mailbox/<name>/ until they return.
+const MAILBOX_DIR = "mailbox";
+const IDENTITIES_FILE = "identities.json";
+
+function readIdentities(dirs: Dirs): Record<string, string> {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(join(dirs.base, IDENTITIES_FILE), "utf-8"));
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Record that `name` is a stable identity that can receive offline mail. */
+export async function rememberIdentity(dirs: Dirs, name: string): Promise<void> {
+  try {
+    ensureDirSync(dirs.base);
+    await withSwarmLock(dirs.base, () => {
+      const identities = readIdentities(dirs);
+      identities[name] = new Date().toISOString();
+      const target = join(dirs.base, IDENTITIES_FILE);
+      const temp = join(dirs.base, `${IDENTITIES_FILE}.tmp-${process.pid}-${Date.now()}`);
+      fs.writeFileSync(temp, JSON.stringify(identities, null, 2));
+      fs.renameSync(temp, target);
+    });
+  } catch {
+    // Best effort; the agent just won't receive offline mail
+  }
+}
+
+export function isKnownIdentity(dirs: Dirs, name: string): boolean {
+  return name in readIdentities(dirs);
+}
 
+/** Hold a message for an agent that isn't running; dropped if not picked up within `retentionSec`. */
+export function queueOfflineMessage(
+  state: MessengerState,
+  dirs: Dirs,
+  to: string,
+  text: string,
+  retentionSec: number,
+  parent?: AgentMailMessage | null,
+  priority?: MessagePriority,
+  attachments?: MessageAttachment[]
+): AgentMailMessage {
+  const msg = buildMessage(state, dirs, to, text, parent, priority, attachments);
+  msg.offlineUntil = new Date(Date.now() + retentionSec * 1000).toISOString();
+  pruneExpiredMail(dirs);
+  writeMessageFile(join(dirs.base, MAILBOX_DIR, to), msg);
+  trackSentMessage(state, msg);
   return msg;
 }
 
+/**
+ * Move an agent's unexpired offline mail into its inbox, where normal
+ * processing delivers it. Returns how many messages were handed over.
+ */
+export function deliverOfflineMail(dirs: Dirs, name: string): number {
+  const mailbox = join(dirs.base, MAILBOX_DIR, name);
+  let files: string[];
+  try {
+    files = fs.readdirSync(mailbox).filter(f => f.endsWith(".json")).sort();
+  } catch {
+    return 0;
+  }
+
+  const inbox = join(dirs.inbox, name);
+  ensureDirSync(inbox);
+  const now = new Date().toISOString();
+  let delivered = 0;
+  for (const file of files) {
+    const src = join(mailbox, file);
+    try {
+      if (dropIfExpired(src, now)) continue;
+      fs.renameSync(src, join(inbox, file));
+      delivered++;
+    } catch {
+      try { fs.unlinkSync(src); } catch {}
+    }
+  }
+  try { fs.rmdirSync(mailbox); } catch {}
+  return delivered;
+}
+
+/**
+ * Delete expired mail from every mailbox, so messages for identities that
+ * never come back don't pile up. Runs whenever new offline mail is queued.
+ */
+export function pruneExpiredMail(dirs: Dirs): number {
+  const root = join(dirs.base, MAILBOX_DIR);
+  let names: string[];
+  try {
+    names = fs.readdirSync(root);
+  } catch {
+    return 0;
+  }
+
+  const now = new Date().toISOString();
+  let pruned = 0;
+  for (const name of names) {
+    const mailbox = join(root, name);
+    let files: string[];
+    try {
+      files = fs.readdirSync(mailbox).filter(f => f.endsWith(".json"));
+    } catch {
+      continue;
+    }
+    for (const file of files) {
+      try {
+        if (dropIfExpired(join(mailbox, file), now)) pruned++;
+      } catch {
+        // Unreadable or already delivered; leave it to deliverOfflineMail
+      }
+    }
+    try { fs.rmdirSync(mailbox); } catch {}
+  }
+  return pruned;
+}
+
+function dropIfExpired(file: string, now: string): boolean {
+  const msg: AgentMailMessage = JSON.parse(fs.readFileSync(file, "utf-8"));
+  if (!msg.offlineUntil || msg.offlineUntil >= now) return false;
+  fs.unlinkSync(file);
+  return true;
+}
+
+// =============================================================================
+// Receipts
+// =============================================================================
+
+const STATUS_RANK: Record<MessageStatus, number> = { queued: 0, delivered: 1, read: 2 };
+
+function trackSentMessage(state: MessengerState, msg: AgentMailMessage): void {
+  state.sentMessages.set(msg.id, {
+    id: msg.id,
+    to: msg.to,
+    text: msg.text,
+    timestamp: msg.timestamp,
+    status: "queued",
+  });
+  if (state.sentMessages.size > MAX_SENT_TRACKED) {
+    const oldest = state.sentMessages.keys().next().value;
+    if (oldest !== undefined) state.sentMessages.delete(oldest);
+  }
+}
+
+/**
+ * Acknowledge a message back to its sender. Receipts are handled by the
+ * sender's inbox processing and never reach its LLM. Skipped when the sender
+ * is no longer registered, so dead agents don't collect inbox files.
+ */
+export function sendReceipt(
+  state: MessengerState,
+  dirs: Dirs,
+  msg: AgentMailMessage,
+  status: MessageReceipt["status"]
+): void {
+  if (msg.receipt || msg.from === state.agentName) return;
+  if (!fs.existsSync(join(dirs.registry, `${msg.from}.json`))) return;
+  const at = new Date().toISOString();
+  try {
+    writeInboxMessage(dirs, {
+      id: randomUUID(),
+      from: state.agentName,
+      to: msg.from,
+      text: "",
+      timestamp: at,
+      replyTo: msg.id,
+      receipt: { messageId: msg.id, status, at },
+    });
+  } catch {
+    // Receipts are best effort
+  }
+}
+
+/** Record a receipt; statuses only move forward (a late "delivered" never undoes "read"). */
+export function applyReceipt(state: MessengerState, receipt: MessageReceipt): void {
+  const sent = state.sentMessages.get(receipt.messageId);
+  if (!sent) return;
+  if (receipt.status === "delivered") sent.deliveredAt ??= receipt.at;
+  if (receipt.status === "read") {
+    sent.deliveredAt ??= receipt.at;
+    sent.readAt ??= receipt.at;
+  }
+  if (STATUS_RANK[receipt.status] > STATUS_RANK[sent.status]) sent.status = receipt.status;
+}
+
+/** Sent messages the recipient hasn't picked up yet, oldest first. */
+export function getUndeliveredMessages(state: MessengerState): SentMessage[] {
+  return [...state.sentMessages.values()].filter(m => m.status === "queued");
+}
+
+// =============================================================================
+// Channels
+// =============================================================================
+
+const CHANNELS_DIR = "channels";
+
+export type ChannelResult =
+  | { success: true; channel: Channel }
+  | { success: false; error: "invalid_name" | "exists" | "not_found" | "not_member" };
+
+export function isChannelSuccess(r: ChannelResult): r is { success: true; channel: Channel } {
+  return r.success === true;
+}
+
+function readChannelSync(dirs: Dirs, name: string): Channel | null {
+  try {
+    return JSON.parse(fs.readFileSync(join(dirs.base, CHANNELS_DIR, `${name}.json`), "utf-8")) as Channel;
+  } catch {
+    return null;
+  }
+}
+
+function writeChannelSync(dirs: Dirs, channel: Channel): void {
+  const dir = join(dirs.base, CHANNELS_DIR);
+  ensureDirSync(dir);
+  const temp = join(dir, `${channel.name}.json.tmp-${process.pid}-${Date.now()}`);
+  fs.writeFileSync(temp, JSON.stringify(channel, null, 2));
+  fs.renameSync(temp, join(dir, `${channel.name}.json`));
+}
+
+export function getChannel(dirs: Dirs, name: string): Channel | null {
+  const normalized = normalizeChannelName(name);
+  return normalized ? readChannelSync(dirs, normalized) : null;
+}
+
+export function getChannels(dirs: Dirs): Channel[] {
+  let files: string[];
+  try {
+    files = fs.readdirSync(join(dirs.base, CHANNELS_DIR)).filter(f => f.endsWith(".json"));
+  } catch {
+    return [];
+  }
+  return files
+    .map(f => readChannelSync(dirs, f.slice(0, -".json".length)))
+    .filter((c): c is Channel => c !== null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Create a channel with `creator` as its first member. */
+export async function createChannel(dirs: Dirs, name: string, creator: string): Promise<ChannelResult> {
+  const normalized = normalizeChannelName(name);
+  if (!normalized) return { success: false, error: "invalid_name" };
+  return withSwarmLock(dirs.base, () => {
+    if (readChannelSync(dirs, normalized)) return { success: false, error: "exists" };
+    const channel: Channel = { name: normalized, createdBy: creator, createdAt: new Date().toISOString(), members: [creator] };
+    writeChannelSync(dirs, channel);
+    return { success: true, channel };
+  });
+}
+
+/** Add `member` to a channel (a no-op if already in it) or remove it. */
+export async function updateChannelMembership(
+  dirs: Dirs,
+  name: string,
+  member: string,
+  joining: boolean
+): Promise<ChannelResult> {
+  const normalized = normalizeChannelName(name);
+  if (!normalized) return { success: false, error: "invalid_name" };
+  return withSwarmLock(dirs.base, () => {
+    const channel = readChannelSync(dirs, normalized);
+    if (!channel) return { success: false, error: "not_found" };
+    const isMember = channel.members.includes(member);
+    if (!joining && !isMember) return { success: false, error: "not_member" };
+    if (joining === isMember) return { success: true, channel };
+    channel.members = joining ? [...channel.members, member] : channel.members.filter(m => m !== member);
+    writeChannelSync(dirs, channel);
+    return { success: true, channel };
+  });
+}
+
+/** Carry channel memberships over to an agent's new name. */
+export async function renameChannelMember(dirs: Dirs, oldName: string, newName: string): Promise<void> {
+  await withSwarmLock(dirs.base, () => {
+    for (const channel of getChannels(dirs)) {
+      if (!channel.members.includes(oldName)) continue;
+      channel.members = [...new Set(channel.members.map(m => (m === oldName ? newName : m)))];
+      writeChannelSync(dirs, channel);
+    }
+  });
+}
+
+/**
+ * Fan a message out to every active member of `channel` except the sender.
+ * Each member gets its own copy tagged with the channel name; members that
+ * aren't running are skipped.
+ */
+export function sendChannelMessage(
+  state: MessengerState,
+  dirs: Dirs,
+  channel: Channel,
+  text: string,
+  parent?: AgentMailMessage | null,
+  priority?: MessagePriority,
+  attachments?: MessageAttachment[]
+): { sent: AgentMailMessage[]; skipped: string[] } {
+  const sent: AgentMailMessage[] = [];
+  const skipped: string[] = [];
+  for (const member of channel.members) {
+    if (member === state.agentName) continue;
+    if (!validateTargetAgent(member, dirs).valid) {
+      skipped.push(member);
+      continue;
+    }
+    const msg = buildMessage(state, dirs, member, text, parent, priority, attachments);
+    msg.channel = channel.name;
+    writeInboxMessage(dirs, msg);
+    trackSentMessage(state, msg);
+    sent.push(msg);
+  }
+  return { sent, skipped };
+}
+
+// =============================================================================
+// Awaited Replies
+// =============================================================================
+
+// An `ask` blocks its tool call until the question is answered. The answer is
+// handed to the waiting call by inbox processing instead of being delivered.
+const replyWaiters = new Map<string, (msg: AgentMailMessage) => void>();
+
+function resolveReplyWaiter(msg: AgentMailMessage): boolean {
+  const waiter = msg.replyTo ? replyWaiters.get(msg.replyTo) : undefined;
+  if (!waiter) return false;
+  waiter(msg);
+  return true;
+}
+
+/**
+ * Resolve with the first reply to `questionId`, or null once `timeoutMs`
+ * elapses or `signal` aborts. Later replies are delivered as normal messages.
+ */
+export function awaitReply(
+  questionId: string,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<AgentMailMessage | null> {
+  return new Promise(resolve => {
+    const finish = (reply: AgentMailMessage | null) => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      replyWaiters.delete(questionId);
+      resolve(reply);
+    };
+    const onAbort = () => finish(null);
+    const timer = setTimeout(() => finish(null), timeoutMs);
+
+    if (signal?.aborted) {
+      finish(null);
+      return;
+    }
+    signal?.addEventListener("abort", onAbort);
+    replyWaiters.set(questionId, finish);
+  });
+}
+
+// =============================================================================
+// Reservation Wait Queue
+// =============================================================================
+
+const WAITLIST_FILE = "waitlist.json";
+
+function readWaitlistSync(dirs: Dirs): WaitEntry[] {
+  const path = join(dirs.base, WAITLIST_FILE);
+  if (!fs.existsSync(path)) return [];
+  try {
+    const parsed = JSON.parse(fs.readFileSync(path, "utf-8"));
+    if (Array.isArray(parsed)) return parsed as WaitEntry[];
+  } catch {
+    // Ignore
+  }
+  return [];
+}
+
+function writeWaitlistSync(dirs: Dirs, waitlist: WaitEntry[]): void {
+  ensureDirSync(dirs.base);
+  const target = join(dirs.base, WAITLIST_FILE);
+  const temp = join(dirs.base, `${WAITLIST_FILE}.tmp-${process.pid}-${Date.now()}`);
+  fs.writeFileSync(temp, JSON.stringify(waitlist, null, 2));
+  fs.renameSync(temp, target);
+}
+
+export function getWaitlist(dirs: Dirs): WaitEntry[] {
+  return readWaitlistSync(dirs).filter(w => !isClaimStale(w, dirs));
+}
+
+/** 1-based position of `agent` in the queue for `path`, or 0 if not queued. */
+export function getQueuePosition(waitlist: WaitEntry[], agent: string, path: string): number {
+  return waitlist.filter(w => w.path === path).findIndex(w => w.agent === agent) + 1;
+}
+
+export interface EnqueueResult {
+  position: number;
+  alreadyQueued: boolean;
+}
+
+export async function enqueueWaiter(dirs: Dirs, entry: WaitEntry): Promise<EnqueueResult> {
+  return withSwarmLock(dirs.base, () => {
+    const stored = readWaitlistSync(dirs);
+    const waitlist = stored.filter(w => !isClaimStale(w, dirs));
+
+    const existing = getQueuePosition(waitlist, entry.agent, entry.path);
+    if (existing > 0) {
+      if (waitlist.length !== stored.length) writeWaitlistSync(dirs, waitlist);
+      return { position: existing, alreadyQueued: true };
+    }
+
+    waitlist.push(entry);
+    writeWaitlistSync(dirs, waitlist);
+    return { position: getQueuePosition(waitlist, entry.agent, entry.path), alreadyQueued: false };
+  });
+}
+
+/**
+ * Hand freed paths to the head of their queue. For every queued path no longer
+ * covered by another agent's blocking reservation, the first waiter is dequeued
+ * and sent an inbox message from `releasedBy`, carrying the reservation itself
+ * when the waiter asked for auto-grant.
+ */
+export async function processWaitQueue(dirs: Dirs, releasedBy: string): Promise<WaitEntry[]> {
+  return withSwarmLock(dirs.base, () => {
+    const stored = readWaitlistSync(dirs);
+    if (stored.length === 0) return [];
+
+    const waitlist = stored.filter(w => !isClaimStale(w, dirs));
+    const agents = readRegistrations(dirs);
+    const notified: WaitEntry[] = [];
+    const seen = new Set<string>();
+
+    for (const entry of waitlist) {
+      if (seen.has(entry.path)) continue;
+      seen.add(entry.path);
+
+      const others = agents.filter(a => a.name !== entry.agent);
+      const blocking = findReservationConflicts(entry.path, others).filter(c => reservationBlocksEdits(c.mode));
+      if (blocking.length > 0) continue;
+
+      const waiterCwd = agents.find(a => a.name === entry.agent)?.cwd ?? process.cwd();
+      const display = displayReservationPath(entry.path, waiterCwd);
+      const msg: AgentMailMessage = {
+        id: randomUUID(),
+        from: releasedBy,
+        to: entry.agent,
+        text: `${display} is free (released by ${releasedBy}) and you were first in the wait queue.` +
+          (entry.autoGrant ? "" : " Reserve it before editing."),
+        timestamp: new Date().toISOString(),
+        replyTo: null
+      };
+      if (entry.autoGrant) {
+        msg.reservationGrant = {
+          pattern: entry.path,
+          mode: entry.mode && entry.mode !== "exclusive" ? entry.mode : undefined,
+          reason: entry.reason,
+          since: msg.timestamp
+        };
+      }
+      writeInboxMessage(dirs, msg);
+      notified.push(entry);
+    }
+
+    if (notified.length > 0 || waitlist.length !== stored.length) {
+      writeWaitlistSync(dirs, waitlist.filter(w => !notified.includes(w)));
+    }
+    return notified;
+  });
+}
+
+// =============================================================================
+// Reservation Takeover
+// =============================================================================
+
+export type ForceReleaseResult =
+  | { success: true; released: FileReservation[]; holder: AgentRegistration }
+  | { success: false; error: "not_found" | "no_reservations" };
+
+export function isForceReleaseSuccess(r: ForceReleaseResult): r is { success: true; released: FileReservation[]; holder: AgentRegistration } {
+  return r.success === true;
+}
+
+/**
+ * Strip reservations from another agent's registry file, for holders that are
+ * alive but unresponsive. `patterns` are canonical; omit to take everything.
+ * The holder is told through its inbox, which also drops the reservations from
+ * its in-memory state so its next registry write doesn't restore them.
+ */
+export async function forceReleaseReservations(
+  dirs: Dirs,
+  holder: string,
+  releasedBy: string,
+  patterns?: string[]
+): Promise<ForceReleaseResult> {
+  return withSwarmLock(dirs.base, () => {
+    const regPath = join(dirs.registry, `${holder}.json`);
+    let reg: AgentRegistration;
+    try {
+      reg = JSON.parse(fs.readFileSync(regPath, "utf-8"));
+    } catch {
+      return { success: false, error: "not_found" };
+    }
+    if (!isProcessAlive(reg.pid)) {
+      return { success: false, error: "not_found" };
+    }
+
+    const current = reg.reservations ?? [];
+    const released = patterns
+      ? current.filter(r => patterns.includes(canonicalizeReservation(r, reg.cwd).pattern))
+      : current;
+    if (released.length === 0) {
+      return { success: false, error: "no_reservations" };
+    }
+
+    const remaining = current.filter(r => !released.includes(r));
+    reg.reservations = remaining.length > 0 ? remaining : undefined;
+    fs.writeFileSync(regPath, JSON.stringify(reg, null, 2));
+    invalidateAgentsCache();
+
+    const holderCwd = normalizeCwd(reg.cwd);
+    const names = released.map(r => displayReservationPath(canonicalizePath(r.pattern, holderCwd), holderCwd));
+    writeInboxMessage(dirs, {
+      id: randomUUID(),
+      from: releasedBy,
+      to: holder,
+      text: `${releasedBy} force-released your reservation${released.length === 1 ? "" : "s"}: ${names.join(", ")}. Reserve again before editing ${released.length === 1 ? "it" : "them"}.`,
+      timestamp: new Date().toISOString(),
+      replyTo: null,
+      reservationRevoked: released.map(r => r.pattern),
+    });
+
+    return { success: true, released, holder: reg };
+  });
+}
+
 // =============================================================================
 // Watcher
 // =============================================================================
@@ -0,0 +1,92 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  archiveMessage,
+  findArchivedMessage,
+  getArchivedThread,
+  parseTimeBound,
+  pruneArchive,
+  queryArchive,
+  readArchive,
+} from "../archive.js";
+import type { AgentMailMessage } from "../lib.js";
+import { createTempDirs } from "./helpers/temp-dirs.js";
+
+function message(id: string, from: string, to: string, text: string, timestamp: string): AgentMailMessage {
+  return { id, from, to, text, timestamp, replyTo: null };
+}
+
+describe("archive", () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = createTempDirs().cwd;
+  });
+
+  it("appends to the project archive and drops the duplicate written on delivery", () => {
+    const msg = message("m1", "OakBear", "EpicGrove", "hello", "2026-03-01T10:00:00.000Z");
+    archiveMessage(cwd, msg);
+    archiveMessage(cwd, msg);
+
+    expect(fs.existsSync(path.join(cwd, ".pi", "messenger", "messages.jsonl"))).toBe(true);
+    expect(readArchive(cwd)).toEqual([msg]);
+  });
+
+  it("filters by sender, recipient, time range and every query term", () => {
+    archiveMessage(cwd, message("m1", "OakBear", "EpicGrove", "Auth migration is done", "2026-03-01T10:00:00.000Z"));
+    archiveMessage(cwd, message("m2", "EpicGrove", "OakBear", "migration tests fail on auth", "2026-03-01T11:00:00.000Z"));
+    archiveMessage(cwd, message("m3", "OakBear", "SwiftFox", "lunch?", "2026-03-01T12:00:00.000Z"));
+
+    const ids = (q: Parameters<typeof queryArchive>[1]) => queryArchive(cwd, q).map(m => m.id);
+    expect(ids({ from: "OakBear" })).toEqual(["m1", "m3"]);
+    expect(ids({ to: "OakBear" })).toEqual(["m2"]);
+    expect(ids({ since: "2026-03-01T10:30:00.000Z", until: "2026-03-01T11:30:00.000Z" })).toEqual(["m2"]);
+    expect(ids({ text: "AUTH migration" })).toEqual(["m1", "m2"]);
+    expect(ids({ text: "auth lunch" })).toEqual([]);
+    expect(ids({ limit: 2 })).toEqual(["m2", "m3"]);
+  });
+
+  it("reads threads by thread ID, message ID or prefix", () => {
+    const first = { ...message("aaaa1111-0001", "Alice", "Bob", "can you review auth?", "2026-03-01T10:00:00.000Z"), threadId: "aaaa1111-0001" };
+    const reply = { ...message("bbbb2222-0002", "Bob", "Alice", "on it", "2026-03-01T10:01:00.000Z"), replyTo: first.id, threadId: first.id };
+    const other = { ...message("cccc3333-0003", "Alice", "Bob", "separate topic", "2026-03-01T10:02:00.000Z"), threadId: "cccc3333-0003" };
+    for (const msg of [reply, first, other]) archiveMessage(cwd, msg);
+
+    expect(getArchivedThread(cwd, "aaaa1111").map(m => m.text)).toEqual(["can you review auth?", "on it"]);
+    expect(getArchivedThread(cwd, reply.id).map(m => m.id)).toEqual([first.id, reply.id]);
+    expect(getArchivedThread(cwd, "does-not-exist")).toEqual([]);
+    expect(findArchivedMessage(cwd, "bbbb2222")?.id).toBe(reply.id);
+  });
+
+  it("picks up messages appended after a lookup and rejects refs that are not message IDs", () => {
+    const first = { ...message("dddd4444-0001", "Alice", "Bob", "first", "2026-03-01T10:00:00.000Z"), threadId: "dddd4444-0001" };
+    archiveMessage(cwd, first);
+    expect(getArchivedThread(cwd, "dddd4444")).toHaveLength(1);
+
+    archiveMessage(cwd, { ...message("eeee5555-0002", "Bob", "Alice", "second", "2026-03-01T10:01:00.000Z"), replyTo: first.id, threadId: first.id });
+    expect(getArchivedThread(cwd, "dddd4444").map(m => m.text)).toEqual(["first", "second"]);
+
+    expect(getArchivedThread(cwd, "../../etc/passwd")).toEqual([]);
+    expect(findArchivedMessage(cwd, "dd")).toBeNull();
+  });
+
+  it("prunes the archive to the most recent messages", () => {
+    for (let i = 1; i <= 4; i++) {
+      archiveMessage(cwd, message(`m${i}`, "OakBear", "EpicGrove", `note ${i}`, `2026-03-01T10:0${i}:00.000Z`));
+    }
+
+    expect(readArchive(cwd)).toHaveLength(4);
+    pruneArchive(cwd, 2);
+
+    expect(readArchive(cwd).map(m => m.id)).toEqual(["m3", "m4"]);
+  });
+
+  it("parses relative and absolute time bounds", () => {
+    const now = Date.parse("2026-03-01T12:00:00.000Z");
+    expect(parseTimeBound("30m", now)).toBe("2026-03-01T11:30:00.000Z");
+    expect(parseTimeBound("2d", now)).toBe("2026-02-27T12:00:00.000Z");
+    expect(parseTimeBound("2026-02-01", now)).toBe("2026-02-01T00:00:00.000Z");
+    expect(parseTimeBound("yesterday-ish", now)).toBeNull();
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { extractBashWriteTargets } from "../bash-targets.js";
+
+describe("extractBashWriteTargets", () => {
+  it("collects redirection targets and skips descriptors and /dev", () => {
+    expect(extractBashWriteTargets("echo hi > out.txt && cat a >> b.log 2>&1")).toEqual(["out.txt", "b.log"]);
+    expect(extractBashWriteTargets("npm test 2>/dev/null")).toEqual([]);
+    expect(extractBashWriteTargets("echo x > 'with space.txt'")).toEqual(["with space.txt"]);
+  });
+
+  it("finds files edited in place by sed and perl", () => {
+    expect(extractBashWriteTargets("sed -i 's/a/b/' src/a.ts src/b.ts")).toEqual(["src/a.ts", "src/b.ts"]);
+    expect(extractBashWriteTargets("sed -i.bak -e 's/a/b/' x.ts")).toEqual(["x.ts"]);
+    expect(extractBashWriteTargets("perl -pi -e 's/x/y/' f.pl")).toEqual(["f.pl"]);
+    expect(extractBashWriteTargets("sed 's/a/b/' x.ts")).toEqual([]);
+  });
+
+  it("handles cp/mv/rm destinations", () => {
+    expect(extractBashWriteTargets("mv a.ts b.ts")).toEqual(["a.ts", "b.ts"]);
+    expect(extractBashWriteTargets("cp a.ts b.ts lib/")).toEqual(["lib/a.ts", "lib/b.ts"]);
+    expect(extractBashWriteTargets("cp -t out a.ts")).toEqual(["out/a.ts"]);
+    expect(extractBashWriteTargets("rm -rf dist src/*.js")).toEqual(["dist/", "src/*.js/"]);
+    expect(extractBashWriteTargets("rm -- -weird")).toEqual(["-weird"]);
+  });
+
+  it("treats git restore/checkout paths as writes but not branch switches", () => {
+    expect(extractBashWriteTargets("git checkout -- src/a.ts")).toEqual(["src/a.ts"]);
+    expect(extractBashWriteTargets("git checkout main")).toEqual([]);
+    expect(extractBashWriteTargets("git checkout -b feature main")).toEqual([]);
+    expect(extractBashWriteTargets("git checkout HEAD~1 a.ts")).toEqual(["a.ts"]);
+    expect(extractBashWriteTargets("git -C sub restore --staged x.ts")).toEqual(["sub/x.ts"]);
+  });
+
+  it("follows cd and ignores heredoc bodies", () => {
+    expect(extractBashWriteTargets("cd pkg && mv a.ts b.ts")).toEqual(["pkg/a.ts", "pkg/b.ts"]);
+    expect(extractBashWriteTargets("cat > gen.ts <<'EOF'\nrm -rf /\nEOF\ntouch done")).toEqual(["gen.ts", "done"]);
+  });
+
+  it("skips wrappers and targets it cannot resolve statically", () => {
+    expect(extractBashWriteTargets("FOO=1 sudo tee -a log.txt < in")).toEqual(["log.txt"]);
+    expect(extractBashWriteTargets("echo $(date) > \"$OUT\"")).toEqual([]);
+    expect(extractBashWriteTargets("ls -la src | grep ts")).toEqual([]);
+  });
+});
@@ -38,6 +38,23 @@ describe("config", () => {
     expect(cfg.autoStatus).toBe(true);
   });
 
+  it("leaves autoReserve off by default and keeps a zero idle timeout", async () => {
+    const { loadConfig } = await loadConfigModule();
+    expect(loadConfig(dirs.cwd)).toMatchObject({ autoReserve: false, autoReserveIdle: 600 });
+
+    writeJson(path.join(dirs.cwd, ".pi", "pi-messenger.json"), { autoReserve: true, autoReserveIdle: 0 });
+    expect(loadConfig(dirs.cwd)).toMatchObject({ autoReserve: true, autoReserveIdle: 0 });
+  });
+
+  it("keeps only valid priority caps", async () => {
+    writeJson(path.join(dirs.cwd, ".pi", "pi-messenger.json"), {
+      priorityCaps: { Chatty: "fyi", "*": "normal", Bogus: "loud" },
+    });
+
+    const { loadConfig } = await loadConfigModule();
+    expect(loadConfig(dirs.cwd).priorityCaps).toEqual({ Chatty: "fyi", "*": "normal" });
+  });
+
   it("applies project override for autoRegister", async () => {
     const homeDir = path.join(dirs.root, ".pi-home");
     writeJson(path.join(homeDir, ".pi", "agent", "pi-messenger.json"), {
@@ -52,4 +69,37 @@ describe("config", () => {
 
     expect(cfg.autoRegister).toBe(true);
   });
+
+  it("merges crew models across config sources", async () => {
+    const homeDir = path.join(dirs.root, ".pi-home");
+    writeJson(path.join(homeDir, ".pi", "agent", "settings.json"), {
+      messenger: { crew: { models: { planner: "settings-planner" } } },
+    });
+    writeJson(path.join(homeDir, ".pi", "agent", "pi-messenger.json"), {
+      crew: { models: { worker: "cheap-worker" } },
+    });
+
+    const { loadConfig } = await loadConfigModule();
+    expect(loadConfig(dirs.cwd).crew.models.planner).toBe("settings-planner");
+
+    writeJson(path.join(dirs.cwd, ".pi", "pi-messenger.json"), {
+      crew: { models: { planner: "project-planner" } },
+    });
+    expect(loadConfig(dirs.cwd).crew.models).toEqual({ planner: "project-planner", worker: "cheap-worker" });
+  });
+
+  it("clamps crew concurrency and keeps string worker env only", async () => {
+    writeJson(path.join(dirs.cwd, ".pi", "pi-messenger.json"), {
+      crew: {
+        concurrency: { workers: 8, max: 4 },
+        work: { maxWaves: 3, env: { API_URL: "http://localhost", DEBUG: true } },
+      },
+    });
+
+    const { loadConfig } = await loadConfigModule();
+    expect(loadConfig(dirs.cwd).crew).toMatchObject({
+      concurrency: { workers: 4, max: 4 },
+      work: { maxWaves: 3, shutdownGracePeriodMs: 30000, env: { API_URL: "http://localhost" } },
+    });
+  });
 });
@@ -0,0 +1,125 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AgentRegistration, Dirs, MessengerState } from "../lib.js";
+import type { PiRunResult } from "../crew.js";
+
+vi.mock("../crew.js", async importOriginal => ({
+  ...(await importOriginal<typeof import("../crew.js")>()),
+  runPiAgent: vi.fn(),
+}));
+
+import * as crew from "../crew.js";
+import { executePlan, executeWork } from "../handlers.js";
+import { loadConfig } from "../config.js";
+import { claimTask, completeTask, getClaimsForSpec, getCompletionsForSpec } from "../store.js";
+import { createTempDirs } from "./helpers/temp-dirs.js";
+
+const initialCwd = process.cwd();
+
+function register(dirs: Dirs, name: string): void {
+  const registration: AgentRegistration = {
+    name,
+    pid: process.pid,
+    sessionId: `session-${name}`,
+    cwd: process.cwd(),
+    model: "test-model",
+    startedAt: new Date().toISOString(),
+    isHuman: false,
+    session: { toolCalls: 0, tokens: 0, filesModified: [] },
+    activity: { lastActivityAt: new Date().toISOString() },
+  };
+  fs.writeFileSync(path.join(dirs.registry, `${name}.json`), JSON.stringify(registration));
+}
+
+/**
+ * Stand-in for a spawned worker: joins the mesh under PI_AGENT_NAME, waits
+ * until the executor has claimed its task, then completes it or just exits.
+ */
+function fakeWorker(dirs: Dirs, spec: string, completes: Set<string>) {
+  return async (options: { env?: Record<string, string> }): Promise<PiRunResult> => {
+    const name = options.env!.PI_AGENT_NAME;
+    const taskId = options.env![crew.CREW_TASK_ENV];
+    register(dirs, name);
+    while (!getClaimsForSpec(dirs, spec)[taskId]) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    if (completes.has(taskId)) {
+      await completeTask(dirs, spec, taskId, name, "done");
+      return { exitCode: 0, output: "done", stderr: "", aborted: false };
+    }
+    return { exitCode: 1, output: "", stderr: "gave up", aborted: false };
+  };
+}
+
+describe("crew work", () => {
+  let cwd: string;
+  let dirs: Dirs;
+  let spec: string;
+  const state = { agentName: "Lead", registered: true } as MessengerState;
+
+  beforeEach(() => {
+    cwd = createTempDirs().cwd;
+    process.chdir(cwd);
+    const base = path.join(cwd, ".pi", "messenger");
+    dirs = { base, registry: path.join(base, "registry"), inbox: path.join(base, "inbox") };
+    fs.mkdirSync(dirs.registry, { recursive: true });
+    fs.mkdirSync(dirs.inbox, { recursive: true });
+    spec = path.join(cwd, "PRD.md");
+    crew.savePlan(cwd, spec, [
+      { title: "Foundation", spec: "", dependsOn: [] },
+      { title: "Feature", spec: "", dependsOn: ["task-1"] },
+    ]);
+  });
+
+  afterEach(() => {
+    process.chdir(initialCwd);
+    vi.mocked(crew.runPiAgent).mockReset();
+  });
+
+  it("runs waves in dependency order, marks completed tasks done and resets the rest", async () => {
+    vi.mocked(crew.runPiAgent).mockImplementation(fakeWorker(dirs, spec, new Set(["task-1"])));
+
+    const res = await executeWork(state, dirs, loadConfig(cwd).crew, { autonomous: true }, undefined, cwd);
+
+    expect(vi.mocked(crew.runPiAgent).mock.calls.map(([o]) => o.env?.[crew.CREW_TASK_ENV])).toEqual(["task-1", "task-2"]);
+    expect(res.details).toMatchObject({ waves: 2, done: 1, total: 2, remaining: ["task-2"], stopped: "no task completed in the last wave" });
+    expect(crew.getTask(cwd, "task-1")).toMatchObject({ status: "done", assignee: crew.workerName("task-1") });
+    expect(crew.getTask(cwd, "task-2")).toMatchObject({ status: "todo" });
+    expect(crew.getTask(cwd, "task-2")?.assignee).toBeUndefined();
+    expect(Object.keys(getCompletionsForSpec(dirs, spec))).toEqual(["task-1"]);
+  });
+
+  it("reports a worker that already holds another claim instead of blaming itself", async () => {
+    const worker = crew.workerName("task-1");
+    register(dirs, worker);
+    await claimTask(dirs, path.join(cwd, "OTHER.md"), "task-9", worker, `session-${worker}`, process.pid);
+    vi.mocked(crew.runPiAgent).mockImplementation(async options => {
+      register(dirs, options.env!.PI_AGENT_NAME);
+      return new Promise(resolve => options.signal?.addEventListener("abort", () =>
+        resolve({ exitCode: null, output: "", stderr: "", aborted: true })
+      ));
+    });
+
+    const res = await executeWork(state, dirs, loadConfig(cwd).crew, {}, undefined, cwd);
+
+    expect(res.content[0].text).toContain(`task-1 (${worker}): ${worker} already holds a claim on task-9 in ./OTHER.md`);
+    expect(crew.getTask(cwd, "task-1")?.status).toBe("todo");
+  });
+
+  it("writes prompt.md only once the planner's task graph is accepted", async () => {
+    const promptFile = path.join(crew.crewDir(cwd), "prompt.md");
+    const tasks = "```json\n{ \"tasks\": [{ \"title\": \"Fix it\", \"spec\": \"\", \"dependsOn\": [] }] }\n```";
+    vi.mocked(crew.runPiAgent).mockResolvedValueOnce({ exitCode: 1, output: "", stderr: "boom", aborted: false });
+    vi.mocked(crew.runPiAgent).mockResolvedValueOnce({ exitCode: 0, output: tasks, stderr: "", aborted: false });
+
+    const failed = await executePlan(dirs, { prompt: "Fix the bugs" }, undefined, cwd);
+    expect(failed.details).toMatchObject({ error: "planner_failed" });
+    expect(fs.existsSync(promptFile)).toBe(false);
+    expect(crew.loadPlan(cwd)?.spec).toBe(spec);
+
+    await executePlan(dirs, { prompt: "Fix the bugs" }, undefined, cwd);
+    expect(fs.readFileSync(promptFile, "utf-8")).toBe("Fix the bugs\n");
+    expect(crew.loadPlan(cwd)?.spec).toBe(promptFile);
+  });
+});
@@ -0,0 +1,192 @@
+import * as fs from "node:fs";
+import { execSync } from "node:child_process";
+import * as path from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  appendTaskProgress,
+  archivePlan,
+  crewTaskForClaim,
+  discoverPrd,
+  getTasks,
+  gitHead,
+  loadPlan,
+  parsePlannerOutput,
+  parseReviewOutput,
+  readTaskDiff,
+  readTaskSpec,
+  readyTasks,
+  recordTaskDiff,
+  savePlan,
+  updateTask,
+  validatePlan,
+} from "../crew.js";
+import { createTempDirs } from "./helpers/temp-dirs.js";
+
+describe("crew planner output", () => {
+  it("reads the last fenced JSON block", () => {
+    const output = [
+      "Here is a draft:",
+      "```json",
+      "{ \"tasks\": [] }",
+      "```",
+      "Final plan:",
+      "```json",
+      JSON.stringify({
+        tasks: [
+          { id: "a", title: "Add schema", spec: "Create the table", dependsOn: [] },
+          { id: "b", title: "Add endpoint", description: "Expose it", depends_on: ["a"] },
+        ],
+      }),
+      "```",
+    ].join("\n");
+
+    const parsed = parsePlannerOutput(output);
+    expect(parsed).toEqual({
+      tasks: [
+        { ref: "a", title: "Add schema", spec: "Create the table", dependsOn: [] },
+        { ref: "b", title: "Add endpoint", spec: "Expose it", dependsOn: ["a"] },
+      ],
+    });
+  });
+
+  it("reports output without a usable task list", () => {
+    expect(parsePlannerOutput("I could not finish.")).toHaveProperty("error");
+    expect(parsePlannerOutput("```json\n{ \"tasks\": [{ \"spec\": \"x\" }] }\n```")).toEqual({ error: "task 1 has no title" });
+  });
+});
+
+describe("crew review output", () => {
+  it("takes the last verdict line and the feedback before it", () => {
+    const output = "Checked the endpoint.\n\n- Missing input validation\n\nVERDICT: **NEEDS_WORK**";
+    expect(parseReviewOutput(output)).toEqual({
+      verdict: "NEEDS_WORK",
+      feedback: "Checked the endpoint.\n\n- Missing input validation",
+    });
+    expect(parseReviewOutput("Looks fine.\nVERDICT: SHIP\n")).toEqual({ verdict: "SHIP", feedback: "Looks fine." });
+    expect(parseReviewOutput("No verdict here")).toBeNull();
+  });
+});
+
+describe("crew task store", () => {
+  it("renumbers planned tasks, remaps dependencies by ref or title and drops implied edges", () => {
+    const { cwd } = createTempDirs();
+    const spec = path.join(cwd, "PRD.md");
+    const { tasks } = savePlan(cwd, spec, [
+      { ref: "schema", title: "Add schema", spec: "Create the table", dependsOn: [] },
+      { ref: "api", title: "Add endpoint", spec: "Expose it", dependsOn: ["schema"] },
+      { title: "Write docs", spec: "Document it", dependsOn: ["add endpoint", "schema"] },
+    ]);
+
+    expect(tasks.map(t => [t.id, t.dependsOn])).toEqual([
+      ["task-1", []],
+      ["task-2", ["task-1"]],
+      ["task-3", ["task-2"]],
+    ]);
+    expect(loadPlan(cwd)?.spec).toBe(spec);
+    expect(readTaskSpec(cwd, "task-2")).toBe("# Add endpoint\n\nExpose it\n");
+    expect(getTasks(cwd).every(t => t.status === "todo")).toBe(true);
+  });
+
+  it("resolves claims only for the plan's spec and known tasks", () => {
+    const { cwd } = createTempDirs();
+    const spec = path.join(cwd, "PRD.md");
+    savePlan(cwd, spec, [{ title: "Only task", spec: "", dependsOn: [] }]);
+
+    expect(crewTaskForClaim(cwd, path.join(cwd, "other.md"), "task-1")).toBeUndefined();
+    expect(crewTaskForClaim(cwd, spec, "task-9")).toBeNull();
+    expect(crewTaskForClaim(cwd, spec, "../plan")).toBeNull();
+
+    updateTask(cwd, "task-1", { status: "in_progress", assignee: "Worker" });
+    expect(crewTaskForClaim(cwd, spec, "task-1")).toMatchObject({ status: "in_progress", assignee: "Worker" });
+  });
+
+  it("lists unclaimed tasks whose dependencies are all completed as ready", () => {
+    const { cwd } = createTempDirs();
+    savePlan(cwd, path.join(cwd, "PRD.md"), [
+      { title: "Foundation", spec: "", dependsOn: [] },
+      { title: "Feature A", spec: "", dependsOn: ["task-1"] },
+      { title: "Feature B", spec: "", dependsOn: ["task-1"] },
+      { title: "Docs", spec: "", dependsOn: ["task-2", "task-3"] },
+    ]);
+    expect(readyTasks(cwd, {}, {}).map(t => t.id)).toEqual(["task-1"]);
+
+    const completed = { completedBy: "Worker-1", completedAt: new Date().toISOString() };
+    const claim = { agent: "Worker-2", sessionId: "s", pid: process.pid, claimedAt: new Date().toISOString() };
+    expect(readyTasks(cwd, { "task-1": completed }, { "task-2": claim }).map(t => t.id)).toEqual(["task-3"]);
+
+    const reopened = { ...completed, review: { verdict: "NEEDS_WORK" as const, reviewedBy: "Lead", reviewedAt: "", feedback: "" } };
+    expect(readyTasks(cwd, { "task-1": reopened }, {}).map(t => t.id)).toEqual(["task-1"]);
+
+    const rethink = { ...completed, review: { ...reopened.review, verdict: "MAJOR_RETHINK" as const } };
+    updateTask(cwd, "task-1", { status: "blocked", blockedReason: "review: MAJOR_RETHINK" });
+    expect(readyTasks(cwd, { "task-1": rethink }, {}).map(t => t.id)).toEqual([]);
+  });
+
+  it("reviews the diff recorded at completion, not later changes", () => {
+    const { cwd } = createTempDirs();
+    const git = (args: string) => execSync(`git -c user.name=test -c user.email=test@example.com ${args}`, { cwd, stdio: "pipe" });
+    fs.writeFileSync(path.join(cwd, "a.ts"), "one\n");
+    git("init -q");
+    git("add a.ts");
+    git("commit -qm base");
+
+    savePlan(cwd, path.join(cwd, "PRD.md"), [{ title: "Change a", spec: "", dependsOn: [] }]);
+    updateTask(cwd, "task-1", { status: "in_progress", baseCommit: gitHead(cwd) });
+    expect(readTaskDiff(cwd, "task-1")).toBeNull();
+
+    fs.writeFileSync(path.join(cwd, "a.ts"), "two\n");
+    recordTaskDiff(cwd, "task-1");
+    fs.writeFileSync(path.join(cwd, "a.ts"), "three\n");
+
+    const diff = readTaskDiff(cwd, "task-1")!;
+    expect(diff).toContain("+two");
+    expect(diff).not.toContain("three");
+  });
+
+  it("archives the previous plan with its progress logs and completions", () => {
+    const { cwd } = createTempDirs();
+    const spec = path.join(cwd, "PRD.md");
+    expect(archivePlan(cwd)).toBeNull();
+
+    savePlan(cwd, spec, [{ title: "Foundation", spec: "", dependsOn: [] }]);
+    appendTaskProgress(cwd, "task-1", "Worker-1", "schema done");
+    const completions = { "task-1": { completedBy: "Worker-1", completedAt: new Date().toISOString() } };
+
+    const archived = archivePlan(cwd, completions);
+    expect(archived).not.toBeNull();
+    expect(loadPlan(cwd)).toBeNull();
+    expect(getTasks(cwd)).toEqual([]);
+    expect(JSON.parse(fs.readFileSync(path.join(archived!, "plan.json"), "utf-8")).spec).toBe(spec);
+    expect(fs.readFileSync(path.join(archived!, "tasks", "task-1.progress.md"), "utf-8")).toContain("schema done");
+    expect(JSON.parse(fs.readFileSync(path.join(archived!, "completions.json"), "utf-8"))).toEqual(completions);
+  });
+
+  it("rejects plans with cycles or unknown dependencies", () => {
+    expect(validatePlan([
+      { title: "A", spec: "", dependsOn: [] },
+      { title: "B", spec: "", dependsOn: ["a"] },
+    ])).toEqual([]);
+
+    expect(validatePlan([
+      { ref: "x", title: "A", spec: "", dependsOn: ["y"] },
+      { ref: "y", title: "B", spec: "", dependsOn: ["x", "missing"] },
+      { title: "C", spec: "", dependsOn: ["C"] },
+    ]).map(i => i.message)).toEqual([
+      "task-2 depends on unknown task missing",
+      "dependency cycle: task-1 → task-2 → task-1",
+      "dependency cycle: task-3 → task-3",
+    ]);
+  });
+
+  it("discovers a PRD in the root before docs/", () => {
+    const { cwd } = createTempDirs();
+    expect(discoverPrd(cwd)).toBeNull();
+
+    fs.mkdirSync(path.join(cwd, "docs"));
+    fs.writeFileSync(path.join(cwd, "docs", "Design.md"), "# Design");
+    expect(discoverPrd(cwd)).toBe(path.join(cwd, "docs", "Design.md"));
+
+    fs.writeFileSync(path.join(cwd, "spec.md"), "# Spec");
+    expect(discoverPrd(cwd)).toBe(path.join(cwd, "spec.md"));
+  });
+});
@@ -1,7 +1,16 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 import { beforeEach, describe, expect, it } from "vitest";
-import { formatFeedLine, logFeedEvent, pruneFeed, readFeedEvents } from "../feed.js";
+import {
+  buildReservationReport,
+  formatFeedLine,
+  logFeedEvent,
+  logReservationEvent,
+  pruneFeed,
+  readFeedEvents,
+  readReservationEvents,
+  type FeedEvent,
+} from "../feed.js";
 import { createTempDirs } from "./helpers/temp-dirs.js";
 
 describe("feed", () => {
@@ -56,6 +65,21 @@ describe("feed", () => {
     expect(events[0]?.target).toBe("b.ts");
   });
 
+  it("keeps reservation events in their own log when the feed is pruned", () => {
+    const file = path.join(cwd, "src", "a.ts");
+    logReservationEvent(cwd, "AgentOne", "reserve", file, "auth");
+    logFeedEvent(cwd, "AgentOne", "edit", "a.ts");
+    logFeedEvent(cwd, "AgentOne", "edit", "b.ts");
+    logFeedEvent(cwd, "AgentOne", "leave");
+
+    pruneFeed(cwd, 1);
+
+    expect(readFeedEvents(cwd, 20).map(e => e.type)).toEqual(["leave"]);
+    const history = readReservationEvents(cwd);
+    expect(history.map(e => e.type)).toEqual(["reserve", "leave"]);
+    expect(history[0]).toMatchObject({ target: path.join("src", "a.ts"), path: file });
+  });
+
   it("formats DM message events using target for direction", () => {
     const line = formatFeedLine({
       ts: new Date("2026-02-13T10:00:00.000Z").toISOString(),
@@ -95,8 +119,75 @@ describe("feed", () => {
     expect(line.length).toBeLessThan(200);
   });
 
+  it("tags expired releases", () => {
+    const line = formatFeedLine({
+      ts: new Date("2026-02-13T10:00:00.000Z").toISOString(),
+      agent: "EpicGrove",
+      type: "release",
+      target: "src/auth/",
+      preview: "expired",
+    });
+    expect(line).toContain("released src/auth/ (expired)");
+  });
+
+  it("formats blocked events with the holder", () => {
+    const line = formatFeedLine({
+      ts: new Date("2026-02-13T10:00:00.000Z").toISOString(),
+      agent: "OakBear",
+      type: "blocked",
+      target: "src/auth/login.ts",
+      preview: "EpicGrove",
+    });
+    expect(line).toContain("OakBear blocked on src/auth/login.ts (held by EpicGrove)");
+  });
+
   it("returns an empty array when the feed file does not exist", () => {
     const freshCwd = createTempDirs().cwd;
     expect(readFeedEvents(freshCwd, 20)).toEqual([]);
   });
 });
+
+describe("buildReservationReport", () => {
+  const at = (minute: number) => new Date(Date.UTC(2026, 1, 13, 10, minute)).toISOString();
+  const event = (minute: number, agent: string, type: FeedEvent["type"], target?: string, preview?: string): FeedEvent =>
+    ({ ts: at(minute), agent, type, target, preview });
+
+  it("pairs reserve with release or leave and charges blocked edits to the covering hold", () => {
+    const report = buildReservationReport([
+      event(0, "EpicGrove", "reserve", "src/auth/", "login flow"),
+      event(5, "OakBear", "blocked", "src/auth/login.ts", "EpicGrove"),
+      event(6, "OakBear", "blocked", "src/auth/session.ts", "EpicGrove"),
+      event(30, "EpicGrove", "release", "src/auth/", "expired"),
+      event(31, "OakBear", "reserve", "src/auth/"),
+      event(40, "OakBear", "reserve", "docs/"),
+      event(50, "OakBear", "leave"),
+      event(55, "Other", "blocked", "lib/x.ts", "Ghost"),
+    ], Date.parse(at(60)));
+
+    expect(report.holds.map(h => [h.agent, h.pattern, h.durationMs / 60_000, h.blocked, h.endedBy])).toEqual([
+      ["EpicGrove", "src/auth/", 30, 2, "expired"],
+      ["OakBear", "src/auth/", 19, 0, "left"],
+      ["OakBear", "docs/", 10, 0, "left"],
+    ]);
+    expect(report.paths[0]).toMatchObject({ pattern: "src/auth/", holds: 2, holders: ["EpicGrove", "OakBear"], blocked: 2 });
+    expect(report.unattributedBlocks).toBe(1);
+  });
+
+  it("matches blocked edits by canonical path rather than the cwd-relative target", () => {
+    const report = buildReservationReport([
+      { ...event(0, "EpicGrove", "reserve", "auth/", "login"), path: "/repo/src/auth/" },
+      { ...event(5, "OakBear", "blocked", "src/auth/login.ts", "EpicGrove"), path: "/repo/src/auth/login.ts" },
+      { ...event(9, "EpicGrove", "release", "auth/"), path: "/repo/src/auth/" },
+    ], Date.parse(at(10)));
+
+    expect(report.holds).toHaveLength(1);
+    expect(report.holds[0]).toMatchObject({ pattern: "/repo/src/auth/", blocked: 1, durationMs: 9 * 60_000 });
+    expect(report.unattributedBlocks).toBe(0);
+  });
+
+  it("measures open holds up to now", () => {
+    const report = buildReservationReport([event(0, "EpicGrove", "reserve", "src/")], Date.parse(at(15)));
+    expect(report.holds[0].until).toBeUndefined();
+    expect(report.holds[0].durationMs).toBe(15 * 60_000);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import {
+  effectivePriority,
+  normalizeAttachments,
+  checkAttachmentLimits,
+  summarizeAttachment,
+  formatAttachmentsForAgent,
+  MAX_ATTACHMENTS,
+  detectEchoLoop,
+  isAcknowledgment,
+  checkOutboundBudget,
+  recordOutbound,
+  outboundCounts,
+  type OutboundLog,
+  type ConversationTurn,
+  type MessageAttachment,
+} from "../lib.js";
+
+describe("effectivePriority", () => {
+  it("defaults to normal and keeps the sender's priority without caps", () => {
+    expect(effectivePriority(undefined, "OakBear", {})).toBe("normal");
+    expect(effectivePriority("urgent", "OakBear", {})).toBe("urgent");
+  });
+
+  it("only ever lowers a priority, per sender or for everyone", () => {
+    expect(effectivePriority("urgent", "Chatty", { Chatty: "fyi" })).toBe("fyi");
+    expect(effectivePriority("fyi", "Chatty", { Chatty: "urgent" })).toBe("fyi");
+    expect(effectivePriority("urgent", "OakBear", { "*": "normal" })).toBe("normal");
+    expect(effectivePriority("urgent", "Chatty", { "*": "normal", Chatty: "fyi" })).toBe("fyi");
+  });
+});
+
+describe("message attachments", () => {
+  it("normalizes tool input and rejects attachments missing their required fields", () => {
+    const result = normalizeAttachments([
+      { type: "file", path: "src/a.ts", startLine: 10, endLine: 20, diff: "ignored" },
+      { type: "json", data: { ok: true }, label: "config" },
+    ]);
+    expect(result).toEqual({
+      attachments: [
+        { type: "file", path: "src/a.ts", startLine: 10, endLine: 20, note: undefined },
+        { type: "json", data: { ok: true }, label: "config" },
+      ],
+    });
+    expect(normalizeAttachments([{ type: "diff" }])).toEqual({ error: "attachments[0]: diff attachments need a diff" });
+    expect(normalizeAttachments([{ type: "file", path: "a.ts", startLine: 5, endLine: 2 }])).toHaveProperty("error");
+    expect(normalizeAttachments([{ type: "image" }])).toHaveProperty("error");
+  });
+
+  it("enforces count and size caps", () => {
+    const ref: MessageAttachment = { type: "task", taskId: "task-1" };
+    expect(checkAttachmentLimits([ref])).toBeNull();
+    expect(checkAttachmentLimits(Array(MAX_ATTACHMENTS + 1).fill(ref))).toMatch(/too many attachments/);
+    expect(checkAttachmentLimits([{ type: "diff", diff: "+".repeat(20_000) }])).toMatch(/attachments\[0\] is \d+ KB/);
+  });
+
+  it("summarizes references and fences diff bodies for the recipient", () => {
+    const diff: MessageAttachment = { type: "diff", path: "src/a.ts", diff: "--- a/src/a.ts\n+++ b/src/a.ts\n-old\n+new\n+more\n" };
+    expect(summarizeAttachment({ type: "file", path: "src/a.ts", startLine: 10, endLine: 20 })).toBe("src/a.ts:10-20");
+    expect(summarizeAttachment(diff)).toBe("diff src/a.ts (+2 -1)");
+    expect(formatAttachmentsForAgent([diff])).toBe("📎 diff src/a.ts (+2 -1)\n```diff\n--- a/src/a.ts\n+++ b/src/a.ts\n-old\n+new\n+more\n```");
+  });
+});
+
+describe("detectEchoLoop", () => {
+  const thresholds = { windowMs: 600_000, maxRoundTrips: 3, similarity: 0.8 };
+  const now = 1_000_000;
+  const turn = (direction: "in" | "out", text: string, secondsAgo: number): ConversationTurn =>
+    ({ direction, text, at: now - secondsAgo * 1000 });
+
+  it("recognizes acknowledgment-only text", () => {
+    expect(isAcknowledgment("Thanks, got it! 👍")).toBe(true);
+    expect(isAcknowledgment("You're welcome")).toBe(true);
+    expect(isAcknowledgment("ok, but the migration still fails")).toBe(false);
+  });
+
+  it("lets bursts from one peer through", () => {
+    const burst = [
+      turn("in", "schema is in db/schema.sql", 30),
+      turn("in", "seed data lives in db/seed", 20),
+      turn("in", "run migrate before tests", 10),
+      turn("in", "and the env var is DATABASE_URL", 0),
+    ];
+    expect(detectEchoLoop(burst, thresholds, now)).toBeNull();
+  });
+
+  it("flags thanks-for-thanks, repeated content and slow ping-pong", () => {
+    expect(detectEchoLoop([turn("out", "thanks!", 60), turn("in", "you're welcome, thanks", 0)], thresholds, now)).toBe("acknowledgment");
+    expect(detectEchoLoop([
+      turn("out", "the auth tests pass on my branch now", 60),
+      turn("in", "auth tests pass on my branch now", 0),
+    ], thresholds, now)).toBe("repetition");
+
+    const pingPong = [
+      turn("in", "what about the header?", 500), turn("out", "header uses flexbox", 450),
+      turn("in", "and the footer?", 400), turn("out", "footer is grid", 350),
+      turn("in", "sidebar?", 300), turn("out", "sidebar is fixed width", 250),
+      turn("in", "and mobile?", 0),
+    ];
+    expect(detectEchoLoop(pingPong, thresholds, now)).toBe("ping_pong");
+    expect(detectEchoLoop(pingPong, { ...thresholds, windowMs: 320_000 }, now)).toBeNull();
+  });
+});
+
+describe("outbound budgets", () => {
+  const budget = { messagesPerMinute: 3, broadcastsPerHour: 1, maxMessageBytes: 100 };
+  const now = 10_000_000;
+
+  it("counts direct targets per minute and broadcasts per hour", () => {
+    const log: OutboundLog = { messages: [], broadcasts: [] };
+    recordOutbound(log, false, 2, now - 50_000);
+    recordOutbound(log, true, 5, now - 30 * 60_000);
+    expect(outboundCounts(log, now)).toEqual({ messagesLastMinute: 2, broadcastsLastHour: 1 });
+
+    expect(checkOutboundBudget(log, budget, { broadcast: false, recipients: 1, bytes: 10 }, now)).toBeNull();
+    expect(checkOutboundBudget(log, budget, { broadcast: false, recipients: 2, bytes: 10 }, now)).toEqual({
+      error: "rate_limited",
+      reason: "2 messages in the last minute (limit 3); try again in 10s",
+    });
+    expect(checkOutboundBudget(log, budget, { broadcast: true, recipients: 4, bytes: 10 }, now)?.reason)
+      .toBe("1 broadcast in the last hour (limit 1); try again in 30m 0s");
+    expect(checkOutboundBudget(log, { ...budget, broadcastsPerHour: 0 }, { broadcast: true, recipients: 4, bytes: 10 }, now)).toBeNull();
+  });
+
+  it("rejects oversized messages", () => {
+    const log: OutboundLog = { messages: [], broadcasts: [] };
+    expect(checkOutboundBudget(log, budget, { broadcast: false, recipients: 1, bytes: 101 }, now)?.error).toBe("message_too_large");
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import {
+  autoReserveReason,
+  expandBraces,
+  formatReservationPattern,
+  globsOverlap,
+  isReservationExpired,
+  pathMatchesReservation,
+  reservationBlocksEdits,
+  reservationOverlapOutcome,
+  reservationsOverlap,
+} from "../lib.js";
+
+function reservation(pattern: string, exclude?: string[]) {
+  return { pattern, since: new Date().toISOString(), exclude };
+}
+
+describe("pathMatchesReservation", () => {
+  it("keeps exact and trailing-slash directory semantics", () => {
+    expect(pathMatchesReservation("src/a.ts", "src/a.ts")).toBe(true);
+    expect(pathMatchesReservation("src/a.ts", "src/b.ts")).toBe(false);
+    expect(pathMatchesReservation("src/deep/a.ts", "src/")).toBe(true);
+    expect(pathMatchesReservation("src", "src/")).toBe(true);
+    expect(pathMatchesReservation("srcx/a.ts", "src/")).toBe(false);
+  });
+
+  it("matches * within a segment and ** across segments", () => {
+    expect(pathMatchesReservation("src/a.test.ts", "src/*.test.ts")).toBe(true);
+    expect(pathMatchesReservation("src/lib/a.test.ts", "src/*.test.ts")).toBe(false);
+    expect(pathMatchesReservation("src/lib/a.test.ts", "src/**/*.test.ts")).toBe(true);
+    expect(pathMatchesReservation("src/a.test.ts", "src/**/*.test.ts")).toBe(true);
+    expect(pathMatchesReservation("packages/core/package.json", "packages/*/package.json")).toBe(true);
+  });
+
+  it("supports ?, character classes and brace sets", () => {
+    expect(pathMatchesReservation("task-1.md", "task-?.md")).toBe(true);
+    expect(pathMatchesReservation("task-12.md", "task-?.md")).toBe(false);
+    expect(pathMatchesReservation("v2.ts", "v[0-9].ts")).toBe(true);
+    expect(pathMatchesReservation("vx.ts", "v[!0-9].ts")).toBe(true);
+    expect(pathMatchesReservation("src/a.tsx", "src/*.{ts,tsx}")).toBe(true);
+    expect(pathMatchesReservation("src/a.js", "src/*.{ts,tsx}")).toBe(false);
+  });
+
+  it("ignores leading ./ on either side", () => {
+    expect(pathMatchesReservation("./src/a.ts", "src/*.ts")).toBe(true);
+    expect(pathMatchesReservation("src/a.ts", "./src/")).toBe(true);
+  });
+
+  it("honors exclusions", () => {
+    expect(pathMatchesReservation("src/gen/a.ts", "src/**", ["src/gen/**"])).toBe(false);
+    expect(pathMatchesReservation("src/app/a.ts", "src/**", ["src/gen/**"])).toBe(true);
+  });
+});
+
+describe("expandBraces", () => {
+  it("expands nested sets and leaves lone braces alone", () => {
+    expect(expandBraces("a/{b,c{d,e}}.ts")).toEqual(["a/b.ts", "a/cd.ts", "a/ce.ts"]);
+    expect(expandBraces("a/{b}.ts")).toEqual(["a/{b}.ts"]);
+  });
+});
+
+describe("globsOverlap", () => {
+  it("detects intersecting patterns", () => {
+    expect(globsOverlap("src/**/*.test.ts", "src/lib/*")).toBe(true);
+    expect(globsOverlap("src/*.ts", "src/a.*")).toBe(true);
+    expect(globsOverlap("packages/*/package.json", "packages/core/")).toBe(true);
+    expect(globsOverlap("src/**", "src/")).toBe(true);
+  });
+
+  it("rejects disjoint patterns", () => {
+    expect(globsOverlap("src/*.ts", "src/*.md")).toBe(false);
+    expect(globsOverlap("src/*.ts", "lib/**")).toBe(false);
+    expect(globsOverlap("src/*.ts", "src/lib/*.ts")).toBe(false);
+    expect(globsOverlap("v[0-4].ts", "v[5-9].ts")).toBe(false);
+  });
+});
+
+describe("reservationsOverlap", () => {
+  it("treats a pattern inside the other's exclusion as disjoint", () => {
+    const broad = reservation("src/**", ["src/gen/**"]);
+    expect(reservationsOverlap(broad, reservation("src/gen/types.ts"))).toBe(false);
+    expect(reservationsOverlap(broad, reservation("src/gen/*.ts"))).toBe(false);
+    expect(reservationsOverlap(broad, reservation("src/app/*.ts"))).toBe(true);
+  });
+});
+
+describe("isReservationExpired", () => {
+  it("only expires reservations with a past expiresAt", () => {
+    const now = Date.now();
+    expect(isReservationExpired(reservation("src/"))).toBe(false);
+    expect(isReservationExpired({ ...reservation("src/"), expiresAt: new Date(now + 60_000).toISOString() }, now)).toBe(false);
+    expect(isReservationExpired({ ...reservation("src/"), expiresAt: new Date(now - 1).toISOString() }, now)).toBe(true);
+  });
+});
+
+describe("reservation modes", () => {
+  it("lets shared locks coexist and refuses exclusive claims over them", () => {
+    expect(reservationOverlapOutcome("shared", "shared")).toBe("ok");
+    expect(reservationOverlapOutcome("exclusive", "shared")).toBe("reject");
+    expect(reservationOverlapOutcome(undefined, "shared")).toBe("reject");
+    expect(reservationOverlapOutcome("exclusive", undefined)).toBe("warn");
+    expect(reservationOverlapOutcome("intent", "exclusive")).toBe("warn");
+    expect(reservationOverlapOutcome("exclusive", "intent")).toBe("warn");
+  });
+
+  it("only intent reservations let edits through", () => {
+    expect(reservationBlocksEdits(undefined)).toBe(true);
+    expect(reservationBlocksEdits("shared")).toBe(true);
+    expect(reservationBlocksEdits("intent")).toBe(false);
+  });
+
+  it("tags non-exclusive modes when formatting", () => {
+    expect(formatReservationPattern({ ...reservation("src/"), mode: "shared" }, "/")).toBe("src/ [shared]");
+    expect(formatReservationPattern(reservation("src/"), "/")).toBe("src/");
+  });
+});
+
+describe("auto-reservations", () => {
+  const claim = { agent: "OakBear", sessionId: "s1", pid: 1, claimedAt: new Date().toISOString() };
+
+  it("derives the reason from the claimed task, then the status message", () => {
+    expect(autoReserveReason("OakBear", { "spec.md": { "task-3": { ...claim, reason: "fix login" } } }, "busy")).toBe("task-3: fix login");
+    expect(autoReserveReason("OakBear", { "spec.md": { "task-3": claim } })).toBe("working on task-3");
+    expect(autoReserveReason("OakBear", { "spec.md": { "task-3": { ...claim, agent: "Other" } } }, "refactoring auth")).toBe("refactoring auth");
+    expect(autoReserveReason("OakBear", {})).toBe("auto-reserved on first edit");
+  });
+
+  it("marks auto-reservations when formatting", () => {
+    expect(formatReservationPattern({ ...reservation("src/a.ts"), auto: true }, "/")).toBe("src/a.ts (auto)");
+  });
+});
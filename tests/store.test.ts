@@ -1,9 +1,40 @@
 import * as fs from "node:fs";
 import * as os from "node:os";
 import * as path from "node:path";
+import { execSync } from "node:child_process";
 import { afterEach, describe, expect, it } from "vitest";
-import type { AgentRegistration, Dirs, MessengerState } from "../lib.js";
-import { getActiveAgents, invalidateAgentsCache } from "../store.js";
+import type { AgentMailMessage, AgentRegistration, Dirs, MessengerState, WaitEntry } from "../lib.js";
+import {
+  awaitReply,
+  canonicalizePath,
+  claimTask,
+  completeTask,
+  createChannel,
+  deliverOfflineMail,
+  enqueueWaiter,
+  forceReleaseReservations,
+  getActiveAgents,
+  getChannels,
+  getConflictsWithOtherAgents,
+  getPeerModifications,
+  getQueuePosition,
+  getWaitlist,
+  invalidateAgentsCache,
+  isKnownIdentity,
+  getUndeliveredMessages,
+  processAllPendingMessages,
+  processWaitQueue,
+  queueOfflineMessage,
+  recordReview,
+  rememberIdentity,
+  renameChannelMember,
+  sendChannelMessage,
+  sendMessageToAgent,
+  sendReceipt,
+  unclaimTask,
+  updateChannelMembership,
+} from "../store.js";
+import { getTask, readTaskProgress, savePlan, updateTask } from "../crew.js";
 
 const roots = new Set<string>();
 const initialCwd = process.cwd();
@@ -30,7 +61,12 @@ function createState(scopeToFolder: boolean): MessengerState {
   } as MessengerState;
 }
 
-function writeRegistration(registryDir: string, name: string, cwd: string): void {
+function writeRegistration(
+  registryDir: string,
+  name: string,
+  cwd: string,
+  extra: Partial<AgentRegistration> = {}
+): void {
   const registration: AgentRegistration = {
     name,
     pid: process.pid,
@@ -41,10 +77,17 @@ function writeRegistration(registryDir: string, name: string, cwd: string): void
     isHuman: false,
     session: { toolCalls: 0, tokens: 0, filesModified: [] },
     activity: { lastActivityAt: new Date().toISOString() },
+    ...extra,
   };
   fs.writeFileSync(path.join(registryDir, `${name}.json`), JSON.stringify(registration));
 }
 
+function readInbox(dirs: Dirs, name: string): AgentMailMessage[] {
+  const inbox = path.join(dirs.inbox, name);
+  if (!fs.existsSync(inbox)) return [];
+  return fs.readdirSync(inbox).map(f => JSON.parse(fs.readFileSync(path.join(inbox, f), "utf-8")));
+}
+
 afterEach(() => {
   invalidateAgentsCache();
   process.chdir(initialCwd);
@@ -74,3 +117,410 @@ describe("store.getActiveAgents cwd scoping", () => {
     expect(agents.map(agent => agent.name)).toEqual(["Peer"]);
   });
 });
+
+describe("store reservation paths", () => {
+  it("canonicalizes relative, dot-prefixed and symlinked paths to the same target", () => {
+    const root = fs.realpathSync(createTempRoot());
+    const project = path.join(root, "project");
+    const alias = path.join(root, "alias");
+    fs.mkdirSync(path.join(project, "src"), { recursive: true });
+    fs.symlinkSync(project, alias, "dir");
+
+    const expected = path.join(project, "src", "a.ts");
+    expect(canonicalizePath("src/a.ts", project)).toBe(expected);
+    expect(canonicalizePath("./src/a.ts", project)).toBe(expected);
+    expect(canonicalizePath(path.join(alias, "src", "a.ts"), root)).toBe(expected);
+    expect(canonicalizePath("src/a.ts", alias)).toBe(expected);
+  });
+
+  it("keeps glob suffixes and trailing slashes", () => {
+    const root = fs.realpathSync(createTempRoot());
+    expect(canonicalizePath("src/**/*.ts", root)).toBe(path.join(root, "src", "**", "*.ts"));
+    expect(canonicalizePath("src/", root)).toBe(path.join(root, "src") + "/");
+  });
+
+  it("detects conflicts between agents in different working directories", () => {
+    const root = fs.realpathSync(createTempRoot());
+    const dirs = createDirs(root);
+    const project = path.join(root, "project");
+    const nested = path.join(project, "packages", "core");
+    fs.mkdirSync(nested, { recursive: true });
+
+    writeRegistration(dirs.registry, "Peer", project, {
+      reservations: [{ pattern: "packages/core/src/", since: new Date().toISOString() }],
+    });
+
+    const conflicts = getConflictsWithOtherAgents("./src/index.ts", createState(false), dirs, nested);
+    expect(conflicts.map(c => c.agent)).toEqual(["Peer"]);
+    expect(conflicts[0].path).toBe(path.join(nested, "src", "index.ts"));
+
+    expect(getConflictsWithOtherAgents("README.md", createState(false), dirs, nested)).toEqual([]);
+  });
+
+  it("matches glob and directory targets against reservations by overlap", () => {
+    const root = createTempRoot();
+    const dirs = createDirs(root);
+    const project = path.join(fs.realpathSync(root), "project");
+    fs.mkdirSync(project, { recursive: true });
+
+    writeRegistration(dirs.registry, "Peer", project, {
+      reservations: [{ pattern: "src/a.ts", since: new Date().toISOString() }],
+    });
+
+    const state = createState(false);
+    expect(getConflictsWithOtherAgents("src/", state, dirs, project).map(c => c.agent)).toEqual(["Peer"]);
+    expect(getConflictsWithOtherAgents("src/*.ts", state, dirs, project).map(c => c.agent)).toEqual(["Peer"]);
+    expect(getConflictsWithOtherAgents("lib/", state, dirs, project)).toEqual([]);
+  });
+
+  it("ignores expired reservations", () => {
+    const root = fs.realpathSync(createTempRoot());
+    const dirs = createDirs(root);
+
+    writeRegistration(dirs.registry, "Peer", root, {
+      reservations: [{
+        pattern: path.join(root, "src") + "/",
+        since: new Date(Date.now() - 120_000).toISOString(),
+        ttl: 60,
+        expiresAt: new Date(Date.now() - 60_000).toISOString(),
+      }],
+    });
+
+    expect(getConflictsWithOtherAgents("src/a.ts", createState(false), dirs, root)).toEqual([]);
+  });
+});
+
+describe("store reservation wait queue", () => {
+  function waiter(agent: string, filePath: string, autoGrant: boolean): WaitEntry {
+    return { agent, sessionId: "session-1", pid: process.pid, path: filePath, autoGrant, since: new Date().toISOString() };
+  }
+
+  it("notifies and dequeues only the first waiter once the holder releases", async () => {
+    const root = createTempRoot();
+    const dirs = createDirs(root);
+    const project = path.join(fs.realpathSync(root), "project");
+    fs.mkdirSync(project, { recursive: true });
+    const target = path.join(project, "src", "a.ts");
+
+    writeRegistration(dirs.registry, "Holder", project, {
+      reservations: [{ pattern: "src/", since: new Date().toISOString() }],
+    });
+    writeRegistration(dirs.registry, "First", project);
+    writeRegistration(dirs.registry, "Second", project);
+
+    expect((await enqueueWaiter(dirs, waiter("First", target, true))).position).toBe(1);
+    expect((await enqueueWaiter(dirs, waiter("Second", target, false))).position).toBe(2);
+    expect(await enqueueWaiter(dirs, waiter("First", target, true))).toEqual({ position: 1, alreadyQueued: true });
+
+    expect(await processWaitQueue(dirs, "Holder")).toEqual([]);
+    expect(readInbox(dirs, "First")).toEqual([]);
+
+    writeRegistration(dirs.registry, "Holder", project);
+    const notified = await processWaitQueue(dirs, "Holder");
+
+    expect(notified.map(w => w.agent)).toEqual(["First"]);
+    const [msg] = readInbox(dirs, "First");
+    expect(msg.from).toBe("Holder");
+    expect(msg.reservationGrant?.pattern).toBe(target);
+    expect(readInbox(dirs, "Second")).toEqual([]);
+    expect(getQueuePosition(getWaitlist(dirs), "Second", target)).toBe(1);
+  });
+
+  it("drops waiters whose session is gone", async () => {
+    const root = createTempRoot();
+    const dirs = createDirs(root);
+    writeRegistration(dirs.registry, "Waiter", root, { sessionId: "session-2" });
+
+    await enqueueWaiter(dirs, waiter("Waiter", path.join(root, "a.ts"), false));
+
+    expect(getWaitlist(dirs)).toEqual([]);
+  });
+});
+
+describe("store threads", () => {
+  it("keeps replies in the original thread for both participants", () => {
+    const dirs = createDirs(createTempRoot());
+    const alice = { agentName: "Alice", sentMessages: new Map() } as MessengerState;
+    const bob = { agentName: "Bob", sentMessages: new Map() } as MessengerState;
+
+    const first = sendMessageToAgent(alice, dirs, "Bob", "can you review auth?");
+    const reply = sendMessageToAgent(bob, dirs, "Alice", "on it", first);
+    const followUp = sendMessageToAgent(alice, dirs, "Bob", "thanks, see login.ts", reply);
+    const unrelated = sendMessageToAgent(alice, dirs, "Bob", "separate topic");
+
+    expect(first.threadId).toBe(first.id);
+    expect(reply.replyTo).toBe(first.id);
+    expect(followUp.threadId).toBe(first.id);
+    expect(unrelated.threadId).toBe(unrelated.id);
+  });
+});
+
+describe("store receipts", () => {
+  it("moves a sent message from queued to delivered to read without delivering receipts as messages", () => {
+    const root = createTempRoot();
+    const dirs = createDirs(root);
+    writeRegistration(dirs.registry, "Alice", root);
+    writeRegistration(dirs.registry, "Bob", root);
+    const alice = { agentName: "Alice", registered: true, sentMessages: new Map() } as MessengerState;
+    const bob = { agentName: "Bob", registered: true, sentMessages: new Map() } as MessengerState;
+
+    const msg = sendMessageToAgent(alice, dirs, "Bob", "ping");
+    expect(getUndeliveredMessages(alice).map(m => m.id)).toEqual([msg.id]);
+
+    const bobReceived: AgentMailMessage[] = [];
+    processAllPendingMessages(bob, dirs, m => bobReceived.push(m));
+    expect(bobReceived.map(m => m.text)).toEqual(["ping"]);
+
+    const aliceReceived: AgentMailMessage[] = [];
+    processAllPendingMessages(alice, dirs, m => aliceReceived.push(m));
+    expect(aliceReceived).toEqual([]);
+    expect(alice.sentMessages.get(msg.id)?.status).toBe("delivered");
+    expect(getUndeliveredMessages(alice)).toEqual([]);
+
+    sendReceipt(bob, dirs, bobReceived[0], "read");
+    sendReceipt(bob, dirs, bobReceived[0], "delivered");
+    processAllPendingMessages(alice, dirs, m => aliceReceived.push(m));
+    expect(alice.sentMessages.get(msg.id)?.status).toBe("read");
+    expect(aliceReceived).toEqual([]);
+  });
+});
+
+describe("store awaited replies", () => {
+  it("hands the answer to the waiting ask instead of delivering it, and gives up on timeout or abort", async () => {
+    const root = createTempRoot();
+    const dirs = createDirs(root);
+    writeRegistration(dirs.registry, "Alice", root);
+    writeRegistration(dirs.registry, "Bob", root);
+    const alice = { agentName: "Alice", registered: true, sentMessages: new Map() } as MessengerState;
+    const bob = { agentName: "Bob", registered: true, sentMessages: new Map() } as MessengerState;
+
+    const question = sendMessageToAgent(alice, dirs, "Bob", "which port?", undefined, undefined, undefined, true);
+    expect(question.question).toBe(true);
+    const pending = awaitReply(question.id, 5000);
+
+    const bobReceived: AgentMailMessage[] = [];
+    processAllPendingMessages(bob, dirs, m => bobReceived.push(m));
+    sendMessageToAgent(bob, dirs, "Alice", "8080", bobReceived[0]);
+
+    const aliceReceived: AgentMailMessage[] = [];
+    processAllPendingMessages(alice, dirs, m => aliceReceived.push(m));
+    expect((await pending)?.text).toBe("8080");
+    expect(aliceReceived).toEqual([]);
+
+    expect(await awaitReply("unanswered", 10)).toBeNull();
+    const controller = new AbortController();
+    const aborted = awaitReply("unanswered", 5000, controller.signal);
+    controller.abort();
+    expect(await aborted).toBeNull();
+
+    sendMessageToAgent(bob, dirs, "Alice", "late answer", question);
+    processAllPendingMessages(alice, dirs, m => aliceReceived.push(m));
+    expect(aliceReceived.map(m => m.text)).toEqual(["late answer"]);
+  });
+});
+
+describe("store channels", () => {
+  it("tracks membership and fans channel messages out to active members only", async () => {
+    const root = createTempRoot();
+    const dirs = createDirs(root);
+    writeRegistration(dirs.registry, "Alice", root);
+    writeRegistration(dirs.registry, "Bob", root);
+    const alice = { agentName: "Alice", registered: true, sentMessages: new Map() } as MessengerState;
+
+    expect(await createChannel(dirs, "#Frontend", "Alice")).toMatchObject({ success: true, channel: { name: "frontend", members: ["Alice"] } });
+    expect(await createChannel(dirs, "frontend", "Bob")).toEqual({ success: false, error: "exists" });
+    expect(await createChannel(dirs, "../escape", "Bob")).toEqual({ success: false, error: "invalid_name" });
+    expect(await updateChannelMembership(dirs, "frontend", "Carol", false)).toEqual({ success: false, error: "not_member" });
+    await updateChannelMembership(dirs, "frontend", "Bob", true);
+    await updateChannelMembership(dirs, "frontend", "Bob", true);
+    await updateChannelMembership(dirs, "frontend", "Gone", true);
+
+    const [channel] = getChannels(dirs);
+    expect(channel.members).toEqual(["Alice", "Bob", "Gone"]);
+    const { sent, skipped } = sendChannelMessage(alice, dirs, channel, "css is done");
+    expect(sent.map(m => m.to)).toEqual(["Bob"]);
+    expect(skipped).toEqual(["Gone"]);
+    expect(readInbox(dirs, "Bob").map(m => [m.text, m.channel])).toEqual([["css is done", "frontend"]]);
+
+    await renameChannelMember(dirs, "Bob", "Robert");
+    await updateChannelMembership(dirs, "frontend", "Gone", false);
+    expect(getChannels(dirs)[0].members).toEqual(["Alice", "Robert"]);
+  });
+});
+
+describe("store offline mailbox", () => {
+  it("holds mail for a known identity until it registers again, dropping expired messages", async () => {
+    const dirs = createDirs(createTempRoot());
+    const sender = { agentName: "Lead", sentMessages: new Map() } as MessengerState;
+
+    expect(isKnownIdentity(dirs, "ReviewBot")).toBe(false);
+    await rememberIdentity(dirs, "ReviewBot");
+    expect(isKnownIdentity(dirs, "ReviewBot")).toBe(true);
+
+    const kept = queueOfflineMessage(sender, dirs, "ReviewBot", "please review #42", 3600);
+    queueOfflineMessage(sender, dirs, "ReviewBot", "stale note", -1);
+    expect(readInbox(dirs, "ReviewBot")).toEqual([]);
+    expect(getUndeliveredMessages(sender).map(m => m.text)).toEqual(["please review #42", "stale note"]);
+
+    expect(deliverOfflineMail(dirs, "ReviewBot")).toBe(1);
+    const inbox = readInbox(dirs, "ReviewBot");
+    expect(inbox.map(m => m.id)).toEqual([kept.id]);
+    expect(inbox[0].offlineUntil).toBeDefined();
+    expect(deliverOfflineMail(dirs, "ReviewBot")).toBe(0);
+  });
+
+  it("prunes expired mail for identities that never come back when new mail is queued", () => {
+    const dirs = createDirs(createTempRoot());
+    const sender = { agentName: "Lead", sentMessages: new Map() } as MessengerState;
+
+    queueOfflineMessage(sender, dirs, "Ghost", "anyone there?", -1);
+    expect(fs.existsSync(path.join(dirs.base, "mailbox", "Ghost"))).toBe(true);
+
+    queueOfflineMessage(sender, dirs, "ReviewBot", "please review #43", 3600);
+    expect(fs.existsSync(path.join(dirs.base, "mailbox", "Ghost"))).toBe(false);
+    expect(deliverOfflineMail(dirs, "ReviewBot")).toBe(1);
+  });
+});
+
+describe("store reservation takeover", () => {
+  it("strips the selected reservations from the holder and tells it which were revoked", async () => {
+    const root = createTempRoot();
+    const dirs = createDirs(root);
+    const project = path.join(fs.realpathSync(root), "project");
+    fs.mkdirSync(project, { recursive: true });
+    const since = new Date().toISOString();
+
+    writeRegistration(dirs.registry, "Holder", project, {
+      reservations: [{ pattern: "src/", since }, { pattern: "docs/", since }],
+    });
+
+    const result = await forceReleaseReservations(dirs, "Holder", "Human", [path.join(project, "src") + "/"]);
+
+    expect(result.success).toBe(true);
+    const reg: AgentRegistration = JSON.parse(fs.readFileSync(path.join(dirs.registry, "Holder.json"), "utf-8"));
+    expect(reg.reservations?.map(r => r.pattern)).toEqual(["docs/"]);
+    const [msg] = readInbox(dirs, "Holder");
+    expect(msg.from).toBe("Human");
+    expect(msg.reservationRevoked).toEqual(["src/"]);
+  });
+
+  it("reports holders without matching reservations", async () => {
+    const root = createTempRoot();
+    const dirs = createDirs(root);
+    writeRegistration(dirs.registry, "Idle", root);
+
+    expect(await forceReleaseReservations(dirs, "Idle", "Human")).toEqual({ success: false, error: "no_reservations" });
+    expect(await forceReleaseReservations(dirs, "Ghost", "Human")).toEqual({ success: false, error: "not_found" });
+  });
+});
+
+describe("store task reviews", () => {
+  it("records the verdict on the completion and lets a NEEDS_WORK task be completed again", async () => {
+    const root = createTempRoot();
+    const dirs = createDirs(root);
+    const spec = path.join(root, "PRD.md");
+    writeRegistration(dirs.registry, "Worker", root);
+
+    expect(await recordReview(dirs, spec, "task-1", {
+      verdict: "SHIP", reviewedBy: "Lead", reviewedAt: new Date().toISOString(), feedback: "",
+    })).toBeNull();
+
+    await claimTask(dirs, spec, "task-1", "Worker", "session-1", process.pid);
+    await completeTask(dirs, spec, "task-1", "Worker", "first pass");
+    expect(await completeTask(dirs, spec, "task-1", "Worker")).toMatchObject({ error: "already_completed" });
+
+    const reviewed = await recordReview(dirs, spec, "task-1", {
+      verdict: "NEEDS_WORK", reviewedBy: "Lead", reviewedAt: new Date().toISOString(), feedback: "Missing tests",
+    });
+    expect(reviewed).toMatchObject({ notes: "first pass", review: { verdict: "NEEDS_WORK", feedback: "Missing tests" } });
+
+    await claimTask(dirs, spec, "task-1", "Worker", "session-1", process.pid);
+    expect(await completeTask(dirs, spec, "task-1", "Worker", "added tests")).toMatchObject({ success: true });
+    const completions = JSON.parse(fs.readFileSync(path.join(dirs.base, "completions.json"), "utf-8"));
+    expect(completions[spec]["task-1"]).not.toHaveProperty("review");
+  });
+});
+
+describe("store crew progress log", () => {
+  it("logs claims, releases, completions and dropped stale claims for crew tasks", async () => {
+    const root = createTempRoot();
+    const dirs = createDirs(root);
+    process.chdir(root);
+    const spec = path.join(root, "PRD.md");
+    savePlan(root, spec, [
+      { title: "One", spec: "", dependsOn: [] },
+      { title: "Two", spec: "", dependsOn: [] },
+      { title: "Three", spec: "", dependsOn: [] },
+    ]);
+    writeRegistration(dirs.registry, "Worker", root);
+
+    await claimTask(dirs, spec, "task-1", "Worker", "session-1", process.pid, "starting on it");
+    await unclaimTask(dirs, spec, "task-1", "Worker");
+    await claimTask(dirs, spec, "task-1", "Worker", "session-1", process.pid);
+    await completeTask(dirs, spec, "task-1", "Worker", "added the thing");
+
+    const log = readTaskProgress(root, "task-1");
+    const entries = log.split("\n").filter(line => line && !line.startsWith("## "));
+    expect(entries).toEqual(["Claimed: starting on it", "Released the claim.", "Claimed.", "Completed: added the thing"]);
+    expect(log).toMatch(/^## \S+ - Worker$/m);
+
+    await claimTask(dirs, spec, "task-2", "Ghost", "session-x", 999999);
+    updateTask(root, "task-2", { status: "in_progress", assignee: "Ghost" });
+    await claimTask(dirs, spec, "task-3", "Worker", "session-1", process.pid);
+    expect(readTaskProgress(root, "task-2")).toContain("Claim dropped: the agent is no longer running.");
+    expect(getTask(root, "task-2")).toMatchObject({ status: "todo" });
+
+    await claimTask(dirs, path.join(root, "other.md"), "task-3", "Other", "session-1", process.pid);
+    expect(readTaskProgress(root, "task-3")).not.toContain("Other");
+  });
+});
+
+describe("store git preflight", () => {
+  function git(cwd: string, args: string): void {
+    execSync(`git -c user.name=test -c user.email=test@example.com ${args}`, { cwd, stdio: "pipe" });
+  }
+
+  it("reports peers that modified a file only while it has uncommitted changes", () => {
+    const root = createTempRoot();
+    const dirs = createDirs(root);
+    const project = path.join(fs.realpathSync(root), "project");
+    fs.mkdirSync(path.join(project, "src"), { recursive: true });
+    fs.writeFileSync(path.join(project, "src", "a.ts"), "one\n");
+    git(project, "init -q");
+    git(project, "add .");
+    git(project, "commit -q -m init");
+
+    writeRegistration(dirs.registry, "Peer", project, {
+      gitBranch: "main",
+      session: { toolCalls: 1, tokens: 0, filesModified: ["src/a.ts"] },
+    });
+    const state = createState(false);
+
+    expect(getPeerModifications("src/a.ts", state, dirs, project)).toEqual([]);
+
+    fs.writeFileSync(path.join(project, "src", "a.ts"), "two\n");
+    const peers = getPeerModifications("./src/a.ts", state, dirs, project);
+    expect(peers.map(p => p.agent)).toEqual(["Peer"]);
+    expect(peers[0].path).toBe(path.join(project, "src", "a.ts"));
+    expect(getPeerModifications("src/b.ts", state, dirs, project)).toEqual([]);
+  });
+
+  it("counts untracked files and works before the first commit", () => {
+    const root = createTempRoot();
+    const dirs = createDirs(root);
+    const project = path.join(fs.realpathSync(root), "fresh");
+    fs.mkdirSync(path.join(project, "src"), { recursive: true });
+    git(project, "init -q");
+    fs.writeFileSync(path.join(project, "src", "new.ts"), "new\n");
+    fs.writeFileSync(path.join(project, "src", "staged.ts"), "staged\n");
+    git(project, "add src/staged.ts");
+
+    writeRegistration(dirs.registry, "Peer", project, {
+      session: { toolCalls: 1, tokens: 0, filesModified: ["src/new.ts", "src/staged.ts"] },
+    });
+    const state = createState(false);
+
+    expect(getPeerModifications("src/new.ts", state, dirs, project).map(p => p.agent)).toEqual(["Peer"]);
+    expect(getPeerModifications("src/staged.ts", state, dirs, project).map(p => p.agent)).toEqual(["Peer"]);
+  });
+});